@@ -0,0 +1,55 @@
+import crypto from "crypto"
+import { existsSync, readFileSync, writeFileSync } from "fs"
+import { LLMProvider, LLMRequest } from "../services/llmProvider"
+
+type RecordingMode = "record" | "replay"
+
+/**
+ * Wraps a provider to record its responses to a file, or replays responses
+ * from that file without calling any model. Responses are keyed by task,
+ * model and messages, so a prompt change invalidates its recording.
+ */
+export class RecordingLLMProvider implements LLMProvider {
+	readonly name: string
+	private mode: RecordingMode
+	private filePath: string
+	private inner?: LLMProvider
+	private recordings: Record<string, string>
+
+	constructor(mode: RecordingMode, filePath: string, inner?: LLMProvider) {
+		if (mode === "record" && !inner) {
+			throw new Error("Recording needs a provider to record from")
+		}
+		this.mode = mode
+		this.filePath = filePath
+		this.inner = inner
+		this.name = `${mode}:${inner?.name ?? filePath}`
+		this.recordings = existsSync(filePath)
+			? JSON.parse(readFileSync(filePath, "utf8"))
+			: {}
+	}
+
+	async complete(request: LLMRequest): Promise<string> {
+		const key = this.keyFor(request)
+
+		if (this.mode === "replay") {
+			const recorded = this.recordings[key]
+			if (recorded === undefined) {
+				throw new Error(`No recorded ${request.task} response (prompt or fixture changed?)`)
+			}
+			return recorded
+		}
+
+		const content = await this.inner!.complete(request)
+		this.recordings[key] = content
+		writeFileSync(this.filePath, JSON.stringify(this.recordings, null, 2))
+		return content
+	}
+
+	private keyFor(request: LLMRequest): string {
+		return crypto
+			.createHash("sha256")
+			.update(JSON.stringify([request.task, request.model, request.messages]))
+			.digest("hex")
+	}
+}
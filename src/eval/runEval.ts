@@ -0,0 +1,254 @@
+import "dotenv/config"
+import { existsSync, readFileSync, readdirSync, writeFileSync } from "fs"
+import path from "path"
+import {
+	analyzeMessageIntent,
+	extractDecisionFromThread,
+	summarizeThreadResult,
+} from "../llm"
+import {
+	LLM_TASKS,
+	LLMProvider,
+	OpenAICompatibleProvider,
+	getTaskConfig,
+	setLLMProvider,
+} from "../services/llmProvider"
+import { isLLMFailure } from "../services/structuredOutput"
+import { RecordingLLMProvider } from "./recordingProvider"
+import { listSimilarity, textSimilarity } from "./similarity"
+import { EvalFixture, EvalMetrics, EvalReport, FixtureResult } from "./types"
+
+/**
+ * Replay recorded Slack threads through the intent, extraction and summary
+ * prompts and compare the results with the expected ones and a baseline.
+ *
+ * Usage: npm run eval -- [--fixtures eval/fixtures] [--baseline eval/baseline.json]
+ *   [--save-baseline] [--record eval/recordings.json | --replay eval/recordings.json]
+ *   [--tolerance 0.05]
+ */
+
+interface EvalOptions {
+	fixtures: string
+	baseline: string
+	saveBaseline: boolean
+	record?: string
+	replay?: string
+	tolerance: number
+}
+
+function parseArgs(argv: string[]): EvalOptions {
+	const options: EvalOptions = {
+		fixtures: "eval/fixtures",
+		baseline: "eval/baseline.json",
+		saveBaseline: false,
+		tolerance: 0.05,
+	}
+	for (let i = 0; i < argv.length; i++) {
+		switch (argv[i]) {
+			case "--fixtures":
+				options.fixtures = argv[++i]
+				break
+			case "--baseline":
+				options.baseline = argv[++i]
+				break
+			case "--save-baseline":
+				options.saveBaseline = true
+				break
+			case "--record":
+				options.record = argv[++i]
+				break
+			case "--replay":
+				options.replay = argv[++i]
+				break
+			case "--tolerance":
+				options.tolerance = Number(argv[++i])
+				break
+			default:
+				throw new Error(`Unknown argument: ${argv[i]}`)
+		}
+	}
+	return options
+}
+
+function loadFixtures(dir: string): EvalFixture[] {
+	return readdirSync(dir)
+		.filter((file) => file.endsWith(".json"))
+		.sort()
+		.map((file) => JSON.parse(readFileSync(path.join(dir, file), "utf8")) as EvalFixture)
+}
+
+/**
+ * Record through the configured provider, replay without any provider, or
+ * leave the configured per-task providers in place
+ */
+function configureProvider(options: EvalOptions): void {
+	if (options.replay) {
+		setLLMProvider(new RecordingLLMProvider("replay", options.replay))
+	} else if (options.record) {
+		// Recording wraps one provider, so every task uses the extraction task's endpoint
+		const config = getTaskConfig("extraction")
+		const inner: LLMProvider = new OpenAICompatibleProvider(config.baseURL, config.apiKey)
+		setLLMProvider(new RecordingLLMProvider("record", options.record, inner))
+	}
+	console.log(
+		"Models:",
+		LLM_TASKS.map((task) => `${task}=${getTaskConfig(task).model}`).join(", "),
+	)
+}
+
+async function evaluateFixture(fixture: EvalFixture): Promise<FixtureResult> {
+	const threadText = fixture.thread.join("\n")
+	const messageText = fixture.mention.replace(/<@[A-Z0-9]+>/g, "").trim()
+
+	const intent = await analyzeMessageIntent(messageText)
+	const actualAction = isLLMFailure(intent) ? `error: ${intent.error}` : intent
+	const result: FixtureResult = {
+		name: fixture.name,
+		intent: {
+			expected: fixture.expected.action,
+			actual: actualAction,
+			correct: actualAction === fixture.expected.action,
+		},
+	}
+
+	if (fixture.expected.decision) {
+		const expected = fixture.expected.decision
+		const decision = await extractDecisionFromThread(threadText)
+		result.decision = isLLMFailure(decision)
+			? { title: 0, summary: 0, tag: 0, error: decision.error }
+			: {
+				title: textSimilarity(expected.title, decision.title),
+				summary: textSimilarity(expected.summary, decision.summary),
+				tag: expected.tag.toLowerCase() === decision.tag.toLowerCase()
+					? 1
+					: textSimilarity(expected.tag, decision.tag),
+			}
+	}
+
+	if (fixture.expected.summary) {
+		const expected = fixture.expected.summary
+		const summary = await summarizeThreadResult(threadText)
+		result.summary = isLLMFailure(summary)
+			? { open_points: 0, decisions_made: 0, next_steps: 0, error: summary.error }
+			: {
+				open_points: listSimilarity(expected.open_points, summary.open_points),
+				decisions_made: listSimilarity(expected.decisions_made, summary.decisions_made),
+				next_steps: listSimilarity(expected.next_steps, summary.next_steps),
+			}
+	}
+
+	return result
+}
+
+function mean(values: number[]): number {
+	return values.length === 0 ? 1 : values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+function computeMetrics(results: FixtureResult[]): EvalMetrics {
+	return {
+		intent_accuracy: mean(results.map((r) => (r.intent.correct ? 1 : 0))),
+		decision_similarity: mean(
+			results.filter((r) => r.decision).map((r) => mean([r.decision!.title, r.decision!.summary, r.decision!.tag])),
+		),
+		summary_similarity: mean(
+			results.filter((r) => r.summary).map((r) => mean([r.summary!.open_points, r.summary!.decisions_made, r.summary!.next_steps])),
+		),
+	}
+}
+
+/**
+ * List metric drops beyond the tolerance and fixtures whose intent was
+ * right in the baseline but is wrong now
+ */
+function findRegressions(report: EvalReport, baseline: EvalReport, tolerance: number): string[] {
+	const regressions: string[] = []
+
+	for (const metric of Object.keys(report.metrics) as Array<keyof EvalMetrics>) {
+		const drop = baseline.metrics[metric] - report.metrics[metric]
+		if (drop > tolerance) {
+			regressions.push(
+				`${metric}: ${baseline.metrics[metric].toFixed(3)} → ${report.metrics[metric].toFixed(3)}`,
+			)
+		}
+	}
+
+	for (const result of report.fixtures) {
+		const before = baseline.fixtures.find((f) => f.name === result.name)
+		if (before?.intent.correct && !result.intent.correct) {
+			regressions.push(
+				`${result.name}: intent ${result.intent.expected} now classified as ${result.intent.actual}`,
+			)
+		}
+	}
+
+	return regressions
+}
+
+function printReport(report: EvalReport): void {
+	console.log("\n" + "=".repeat(80))
+	console.log("📊 EVALUATION RESULTS")
+	console.log("=".repeat(80))
+	for (const result of report.fixtures) {
+		const intent = result.intent.correct ? "✅" : `❌ (${result.intent.actual})`
+		console.log(`\n${result.name}`)
+		console.log(`  intent ${result.intent.expected}: ${intent}`)
+		if (result.decision) {
+			const d = result.decision
+			console.log(`  decision: title ${d.title.toFixed(2)}, summary ${d.summary.toFixed(2)}, tag ${d.tag.toFixed(2)}${d.error ? ` — ${d.error}` : ""}`)
+		}
+		if (result.summary) {
+			const s = result.summary
+			console.log(`  summary: open ${s.open_points.toFixed(2)}, decisions ${s.decisions_made.toFixed(2)}, next ${s.next_steps.toFixed(2)}${s.error ? ` — ${s.error}` : ""}`)
+		}
+	}
+	console.log("\n" + "-".repeat(80))
+	console.log(`Intent accuracy:     ${(report.metrics.intent_accuracy * 100).toFixed(1)}%`)
+	console.log(`Decision similarity: ${report.metrics.decision_similarity.toFixed(3)}`)
+	console.log(`Summary similarity:  ${report.metrics.summary_similarity.toFixed(3)}`)
+}
+
+async function runEval() {
+	const options = parseArgs(process.argv.slice(2))
+	configureProvider(options)
+
+	const fixtures = loadFixtures(options.fixtures)
+	console.log(`🧪 Evaluating ${fixtures.length} fixtures from ${options.fixtures}`)
+
+	const results: FixtureResult[] = []
+	for (const fixture of fixtures) {
+		results.push(await evaluateFixture(fixture))
+	}
+
+	const report: EvalReport = {
+		created_at: new Date().toISOString(),
+		metrics: computeMetrics(results),
+		fixtures: results,
+	}
+	printReport(report)
+
+	if (options.saveBaseline) {
+		writeFileSync(options.baseline, JSON.stringify(report, null, 2) + "\n")
+		console.log(`\n💾 Baseline saved to ${options.baseline}`)
+		return
+	}
+
+	if (!existsSync(options.baseline)) {
+		console.log(`\nNo baseline at ${options.baseline}; run with --save-baseline to create one`)
+		return
+	}
+
+	const baseline = JSON.parse(readFileSync(options.baseline, "utf8")) as EvalReport
+	const regressions = findRegressions(report, baseline, options.tolerance)
+	if (regressions.length > 0) {
+		console.log("\n❌ Regressions against baseline:")
+		regressions.forEach((regression) => console.log(`  - ${regression}`))
+		process.exitCode = 1
+	} else {
+		console.log("\n✅ No regressions against baseline")
+	}
+}
+
+runEval().catch((error) => {
+	console.error("❌ Evaluation failed:", error)
+	process.exit(1)
+})
@@ -0,0 +1,46 @@
+/**
+ * Text similarity measures used to score LLM output against fixtures
+ */
+
+function tokens(text: string): Set<string> {
+	return new Set(text.toLowerCase().match(/[a-z0-9]+/g) || [])
+}
+
+/**
+ * Dice coefficient over word sets (1 = same words, 0 = no overlap)
+ * @param a - First text
+ * @param b - Second text
+ * @returns number between 0 and 1
+ */
+export function textSimilarity(a: string, b: string): number {
+	const left = tokens(a)
+	const right = tokens(b)
+	if (left.size === 0 && right.size === 0) {
+		return 1
+	}
+	let shared = 0
+	left.forEach((token) => {
+		if (right.has(token)) shared++
+	})
+	return (2 * shared) / (left.size + right.size)
+}
+
+/**
+ * Score a list of items against the expected list: each expected item is
+ * matched to its most similar actual item, and unexpected extra items lower
+ * the score
+ * @param expected - Expected items
+ * @param actual - Items produced by the model
+ * @returns number between 0 and 1
+ */
+export function listSimilarity(expected: string[], actual: string[]): number {
+	if (expected.length === 0) {
+		return actual.length === 0 ? 1 : 0
+	}
+	const matched = expected.map((item) =>
+		Math.max(0, ...actual.map((candidate) => textSimilarity(item, candidate))),
+	)
+	const recall = matched.reduce((sum, score) => sum + score, 0) / expected.length
+	const extra = Math.max(0, actual.length - expected.length)
+	return recall * (expected.length / (expected.length + extra))
+}
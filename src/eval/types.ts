@@ -0,0 +1,42 @@
+import { ActionType } from "../types"
+
+/**
+ * A recorded Slack thread with the results we expect the prompts to produce
+ */
+export interface EvalFixture {
+	name: string
+	/** Thread messages in order, as Slack text */
+	thread: string[]
+	/** The message that mentions the bot */
+	mention: string
+	expected: {
+		action: ActionType
+		decision?: { title: string; summary: string; tag: string }
+		summary?: {
+			open_points: string[]
+			decisions_made: string[]
+			next_steps: string[]
+		}
+	}
+}
+
+export interface FixtureResult {
+	name: string
+	intent: { expected: string; actual: string; correct: boolean }
+	/** 0-1 similarity per decision field, when the fixture expects a decision */
+	decision?: { title: number; summary: number; tag: number; error?: string }
+	/** 0-1 similarity per summary section, when the fixture expects a summary */
+	summary?: { open_points: number; decisions_made: number; next_steps: number; error?: string }
+}
+
+export interface EvalMetrics {
+	intent_accuracy: number
+	decision_similarity: number
+	summary_similarity: number
+}
+
+export interface EvalReport {
+	created_at: string
+	metrics: EvalMetrics
+	fixtures: FixtureResult[]
+}
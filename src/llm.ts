@@ -1,10 +1,69 @@
 import "dotenv/config";
-import OpenAI from "openai";
-import { DecisionExtraction, OpenAIResponse, RelatedDecisionsResponse, ActionType, DecisionUpdateAnalysis, ThreadSummaryResponse } from "./types";
+import { DecisionExtraction, DecisionCandidate, DecisionRecordFields, RelatedDecisionsResponse, ActionType, DecisionUpdateAnalysis, ThreadSummaryResponse, StoredDecision, LLMFailure, ConfidenceThresholds } from "./types";
+import { completeStructured, isLLMFailure, toLLMFailure } from "./services/structuredOutput";
 import {
-  extractTitleFallback,
-  extractSummaryFallback,
-} from "./utils/stringUtils";
+  decisionComparisonSchema,
+  decisionExtractionSchema,
+  decisionListSchema,
+  decisionUpdateSchema,
+  digestIntroSchema,
+  intentSchema,
+  relatedDecisionsSchema,
+  threadNotesSchema,
+  threadSummarySchema,
+} from "./llmSchemas";
+import {
+  estimateTokens,
+  splitIntoChunks,
+  truncateToTokens,
+} from "./utils/tokenBudget";
+import { uniqueTags } from "./utils/tags";
+
+export interface CondensedThread {
+  text: string;
+  /** Number of parts the thread was condensed in; 0 when it fit as is */
+  parts: number;
+}
+
+// Notes of notes are condensed again at most this many times
+const MAX_CONDENSE_ROUNDS = 3;
+
+/**
+ * Confidence thresholds used unless a channel or workspace sets its own
+ */
+export const DEFAULT_CONFIDENCE_THRESHOLDS: ConfidenceThresholds = {
+  extraction: 50,
+  update: 60,
+  summary: 30,
+};
+
+export interface ExtractionOptions {
+  /** Minimum confidence for a decision to be kept */
+  minConfidence?: number;
+  /** Tag to use when no more specific one fits */
+  defaultTag?: string;
+  /** The managed tag vocabulary to choose tags from */
+  knownTags?: string[];
+}
+
+// Cap on the vocabulary listed in the prompt
+const MAX_PROMPT_TAGS = 200;
+
+/**
+ * Prompt lines on choosing tags: from the vocabulary where one fits, the
+ * default tag when nothing more specific does
+ */
+function tagPrompt({ defaultTag, knownTags = [] }: ExtractionOptions): string {
+  return [
+    "Also return tags: an array of 1-3 tags that apply, with the main tag first.",
+    knownTags.length > 0
+      ? `Choose tags from this vocabulary: ${knownTags.slice(0, MAX_PROMPT_TAGS).join(", ")}. Only propose a new tag when none of these fits the topic.`
+      : "",
+    defaultTag ? `If no more specific tag fits, use the tag '${defaultTag}'.` : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
 
 export interface DecisionComparison {
   similar: boolean;
@@ -13,74 +72,167 @@ export interface DecisionComparison {
   reason?: string;
 }
 
-const client = new OpenAI({
-  baseURL: "https://openrouter.ai/api/v1",
-  apiKey: process.env.OPENROUTER_API_KEY,
-  defaultHeaders: {
-    "HTTP-Referer": process.env.DOMAIN, // Your site URL
-    "X-Title": "Decision Bot", // Your site name
-  },
-});
+// Prompt lines shared by the single and multi-decision extraction tasks
+const DECISION_RECORD_PROMPT = [
+  "A decision may also carry these record fields; fill them from the thread and omit any it does not support:",
+  "status ('accepted' if agreed, 'proposed' if still awaiting sign-off, 'rejected' if a proposal was turned down),",
+  "context (the problem or situation that prompted the decision),",
+  "rationale (why this option was chosen),",
+  "alternatives (array of up to 5 options that were considered and not chosen),",
+  "consequences (expected trade-offs or follow-up effects),",
+  "owner (the person accountable for the decision, as named in the thread),",
+  "decided_by (the author who made the final call, written exactly as their name appears before their message)",
+  "and decision_date (YYYY-MM-DD, only if the thread states when it was decided).",
+  "Thread lines have the form '[time] Author: message'; authors marked (bot) are integrations, not people.",
+].join(" ");
+
+/**
+ * Tidy the optional record fields returned by the model, dropping empty
+ * values and dates that do not parse
+ * @param output - Record fields as returned by the model
+ * @returns DecisionRecordFields
+ */
+function cleanRecordFields(output: DecisionRecordFields): DecisionRecordFields {
+  const text = (value?: string | null) =>
+    value?.replace(/\s+/g, " ").trim() || undefined;
+  const alternatives = (output.alternatives || [])
+    .map((alternative) => text(alternative))
+    .filter((alternative): alternative is string => Boolean(alternative));
+  const date = text(output.decision_date);
+
+  return {
+    status: output.status || undefined,
+    context: text(output.context),
+    rationale: text(output.rationale),
+    alternatives: alternatives.length > 0 ? alternatives : undefined,
+    consequences: text(output.consequences),
+    owner: text(output.owner),
+    decided_by: text(output.decided_by),
+    tags: output.tags?.length ? uniqueTags(output.tags) : undefined,
+    decision_date:
+      date && !Number.isNaN(Date.parse(date))
+        ? new Date(date).toISOString().slice(0, 10)
+        : undefined,
+  };
+}
 
 // Returns { title, summary } — both short, safe to render.
 export async function extractDecisionFromThread(
-  threadText: string
-): Promise<DecisionExtraction | { error: string }> {
+  threadText: string,
+  options: ExtractionOptions = {}
+): Promise<DecisionExtraction | LLMFailure> {
+  const { minConfidence = DEFAULT_CONFIDENCE_THRESHOLDS.extraction, defaultTag } = options;
   //TODO: Improve system prompt
   const system = [
     "You extract decisions from Slack threads.",
     "Return compact JSON with keys: title (<=80 chars), summary (1–2 sentences), tag (single descriptive word or short phrase) and confidence (0-100).",
     "The tag should be a concise category or topic that describes the decision (e.g., 'architecture', 'process', 'tooling', 'policy').",
+    tagPrompt(options),
     "Do not include Markdown, quotes, or emojis in fields.",
     "The confidence should be a number between 0 and 100 that represents the confidence in the decision.",
-  ].join(" ");
+    DECISION_RECORD_PROMPT,
+  ].filter(Boolean).join(" ");
 
   try {
     // Chat Completions with JSON output (simple & reliable)
-    const resp = await client.chat.completions.create({
-      model: "openai/gpt-5-mini",
-      response_format: { type: "json_object" },
-      messages: [
-        { role: "system", content: system },
-        {
-          role: "user",
-          content:
-            "From the following Slack thread text, extract a crisp decision.\n\nThread:\n" +
-            threadText,
-        },
-      ],
-    });
-
-    const content = resp.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error("No content received from OpenAI");
-    }
-
-    const { title, summary, tag, confidence } = JSON.parse(
-      content
-    ) as OpenAIResponse;
-
-    if (confidence !== undefined && confidence < 50) {
+    const { title, summary, tag, confidence, ...record } = await completeStructured("extraction", [
+      { role: "system", content: system },
+      {
+        role: "user",
+        content:
+          "From the following Slack thread text, extract a crisp decision.\n\nThread:\n" +
+          threadText,
+      },
+    ], decisionExtractionSchema);
+
+    if (confidence < minConfidence) {
       return {
         error:
           "Could not confidently extract decision. Please provide more context.",
+        kind: "low_confidence",
       };
     }
 
     // Basic guardrails
+    const mainTag = tag.replace(/\s+/g, " ").trim() || defaultTag || "";
+    const fields = cleanRecordFields(record);
     return {
-      title: (title || "Decision").slice(0, 80),
-      summary: (summary || "Summary unavailable.").replace(/\s+/g, " ").trim(),
-      tag: (tag || "general").replace(/\s+/g, " ").trim(),
+      title: title.trim().slice(0, 80),
+      summary: summary.replace(/\s+/g, " ").trim(),
+      tag: mainTag,
+      ...fields,
+      tags: uniqueTags([mainTag, ...(fields.tags || [])]),
     };
   } catch (error) {
     console.error("Error extracting decision from thread:", error);
-    // Fallback to basic extraction
-    return {
-      title: extractTitleFallback(threadText),
-      summary: extractSummaryFallback(threadText),
-      tag: "general",
-    };
+    return toLLMFailure(error, "Could not extract a decision from this thread.");
+  }
+}
+
+/**
+ * Extract every separate decision a thread settled
+ * @param threadText - The thread text content
+ * @param options - Confidence threshold and default tag
+ * @returns Promise<DecisionCandidate[] | LLMFailure> - Candidates with their
+ * own confidence, most confident first
+ */
+export async function extractDecisionsFromThread(
+  threadText: string,
+  options: ExtractionOptions = {}
+): Promise<DecisionCandidate[] | LLMFailure> {
+  const { minConfidence = DEFAULT_CONFIDENCE_THRESHOLDS.extraction, defaultTag } = options;
+  const system = [
+    "You extract decisions from Slack threads.",
+    "A thread may settle several separate things; list each distinct decision once.",
+    "Return JSON with key decisions: an array (at most 10) of objects with keys title (<=80 chars), summary (1–2 sentences), tag (single descriptive word or short phrase) and confidence (0-100).",
+    "The tag should be a concise category or topic that describes the decision (e.g., 'architecture', 'process', 'tooling', 'policy').",
+    tagPrompt(options),
+    "Only include conclusions that were actually agreed, not options that were merely discussed.",
+    "Do not include Markdown, quotes, or emojis in fields.",
+    "The confidence of each decision should reflect how clearly the thread settled it.",
+    "If the thread contains no decision, return an empty array.",
+    DECISION_RECORD_PROMPT,
+  ].filter(Boolean).join(" ");
+
+  try {
+    const { decisions } = await completeStructured("extraction", [
+      { role: "system", content: system },
+      {
+        role: "user",
+        content:
+          "From the following Slack thread text, list each decision that was made.\n\nThread:\n" +
+          threadText,
+      },
+    ], decisionListSchema);
+
+    const confident = decisions
+      .filter((decision) => decision.confidence >= minConfidence)
+      .sort((a, b) => b.confidence - a.confidence)
+      .map(({ title, summary, tag, confidence, ...record }) => {
+        const mainTag = tag.replace(/\s+/g, " ").trim() || defaultTag || "";
+        const fields = cleanRecordFields(record);
+        return {
+          title: title.trim().slice(0, 80),
+          summary: summary.replace(/\s+/g, " ").trim(),
+          tag: mainTag,
+          confidence,
+          ...fields,
+          tags: uniqueTags([mainTag, ...(fields.tags || [])]),
+        };
+      });
+
+    if (confident.length === 0) {
+      return {
+        error:
+          "Could not confidently extract any decision. Please provide more context.",
+        kind: "low_confidence",
+      };
+    }
+
+    return confident;
+  } catch (error) {
+    console.error("Error extracting decisions from thread:", error);
+    return toLLMFailure(error, "Could not extract decisions from this thread.");
   }
 }
 
@@ -92,12 +244,7 @@ export async function extractDecisionFromThread(
  */
 export async function compareDecisionWithExisting(
   newDecision: DecisionExtraction,
-  existingDecisions: Array<{
-    id: string;
-    title: string;
-    summary: string;
-    tag: string;
-  }>
+  existingDecisions: StoredDecision[]
 ): Promise<DecisionComparison> {
   if (existingDecisions.length === 0) {
     return {
@@ -129,14 +276,11 @@ export async function compareDecisionWithExisting(
     .join("\n\n");
 
   try {
-    const resp = await client.chat.completions.create({
-      model: "openai/gpt-4o-mini",
-      response_format: { type: "json_object" },
-      messages: [
-        { role: "system", content: system },
-        {
-          role: "user",
-          content: `New Decision:
+    const result = await completeStructured("comparison", [
+      { role: "system", content: system },
+      {
+        role: "user",
+        content: `New Decision:
 Title: ${newDecision.title}
 Summary: ${newDecision.summary}
 Tag: ${newDecision.tag}
@@ -145,23 +289,12 @@ Existing Decisions:
 ${existingDecisionsText}
 
 Compare the new decision with the existing ones and determine if any are similar.`,
-        },
-      ],
-    });
-
-    const content = resp.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error("No content received from OpenAI");
-    }
-
-    const result = JSON.parse(content) as DecisionComparison;
+      },
+    ], decisionComparisonSchema(existingDecisions.map((decision) => decision.id)));
 
-    // Validate the result
-    if (
-      typeof result.similar !== "boolean" ||
-      typeof result.similarity_score !== "number"
-    ) {
-      throw new Error("Invalid response format from LLM");
+    // A match is only usable if it names the decision it matched
+    if (result.similar && !result.existing_decision_id) {
+      return { ...result, similar: false };
     }
 
     return result;
@@ -179,17 +312,12 @@ Compare the new decision with the existing ones and determine if any are similar
  * Find related decisions based on thread context and existing decisions
  * @param threadText - The thread text content
  * @param existingDecisions - Array of existing decisions from the database
- * @returns Promise<RelatedDecisionsResponse>
+ * @returns Promise<RelatedDecisionsResponse | LLMFailure>
  */
 export async function findRelatedDecisions(
   threadText: string,
-  existingDecisions: Array<{
-    id: string;
-    title: string;
-    summary: string;
-    tag: string;
-  }>
-): Promise<RelatedDecisionsResponse> {
+  existingDecisions: StoredDecision[]
+): Promise<RelatedDecisionsResponse | LLMFailure> {
   if (existingDecisions.length === 0) {
     return {
       summary: "No existing decisions found in the database.",
@@ -214,69 +342,36 @@ export async function findRelatedDecisions(
     .join("\n\n");
 
   try {
-    const resp = await client.chat.completions.create({
-      model: "openai/gpt-5-mini",
-      response_format: { type: "json_object" },
-      messages: [
-        { role: "system", content: system },
-        {
-          role: "user",
-          content: `Slack Thread Conversation:
+    const result = await completeStructured("related", [
+      { role: "system", content: system },
+      {
+        role: "user",
+        content: `Slack Thread Conversation:
 ${threadText}
 
 Existing Decisions Database:
 ${existingDecisionsText}
 
 Analyze the thread conversation and find any related decisions from the database. Consider the topic, technology, context, and any decisions being discussed.`,
-        },
-      ],
-    });
-
-    const content = resp.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error("No content received from OpenAI");
-    }
-
-    const result = JSON.parse(content) as RelatedDecisionsResponse;
-
-    // Validate the result
-    if (
-      typeof result.summary !== "string" ||
-      !Array.isArray(result.related_decisions)
-    ) {
-      throw new Error("Invalid response format from LLM");
-    }
-
-    // Validate each related decision
-    for (const decision of result.related_decisions) {
-      if (
-        typeof decision.id !== "number" ||
-        typeof decision.title !== "string" ||
-        typeof decision.summary !== "string"
-      ) {
-        throw new Error("Invalid related decision format from LLM");
-      }
-    }
+      },
+    ], relatedDecisionsSchema(existingDecisions.length));
 
     return result;
   } catch (error) {
     console.error("Error finding related decisions:", error);
-    return {
-      summary: "Error occurred while searching for related decisions.",
-      related_decisions: [],
-    };
+    return toLLMFailure(error, "Could not search for related decisions.");
   }
 }
 
 /**
  * Analyze a message to determine the user's intent for decision management
  * @param messageText - The message text to analyze
- * @returns Promise<ActionType> - The determined action type
+ * @returns Promise<ActionType | LLMFailure> - The determined action type
  */
-export async function analyzeMessageIntent(messageText: string): Promise<ActionType> {
+export async function analyzeMessageIntent(messageText: string): Promise<ActionType | LLMFailure> {
   const system = [
     "You analyze Slack messages to determine the user's intent for decision management.",
-    "Return one of these exact enum values: 'create', 'update', 'read', 'delete', 'summary', or 'none_applicable'.",
+    "Return one of these exact enum values: 'create', 'update', 'read', 'delete', 'summary', 'history', 'revert', 'list_tasks', 'complete_task', or 'none_applicable'.",
     "",
     "Use 'create' when the user wants to:",
     "- Log a new decision to the database",
@@ -308,8 +403,24 @@ export async function analyzeMessageIntent(messageText: string): Promise<ActionT
     "- See a recap of the thread",
     "- Get a summary of decisions and outcomes",
     "",
+    "Use 'history' when the user wants to:",
+    "- See the history or past versions of a decision",
+    "- Know how a decision changed over time",
+    "- See who changed a decision and when",
+    "",
+    "Use 'revert' when the user wants to:",
+    "- Revert or roll back a decision to its previous version",
+    "- Undo the last change made to a decision",
+    "",
+    "Use 'list_tasks' when the user wants to:",
+    "- See their open tasks, follow-ups or action items",
+    "- See the open tasks of someone else they mention",
+    "",
+    "Use 'complete_task' when the user wants to:",
+    "- Mark a task or action item as done, e.g. 'done with #12' or 'close task 3'",
+    "",
     "Use 'none_applicable' when:",
-    "- The user doesn't want to create, update, read, or delete decisions",
+    "- The user doesn't want to create, update, read, delete, summarize, or see the history of decisions, or manage their tasks",
     "- The message is not about decision management",
     "- The user is asking general questions not related to decisions",
     "- The user explicitly says they don't want to log anything",
@@ -318,37 +429,19 @@ export async function analyzeMessageIntent(messageText: string): Promise<ActionT
   ].join("\n");
 
   try {
-    const resp = await client.chat.completions.create({
-      model: "openai/gpt-5-mini",
-      response_format: { type: "json_object" },
-      messages: [
-        { role: "system", content: system },
-        {
-          role: "user",
-          content: `Analyze this message and determine the user's intent:\n\n"${messageText}"\n\nReturn only the action type as a JSON object with key "action".`
-        },
-      ],
-    });
-
-    const content = resp.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error("No content received from OpenAI");
-    }
-
-    const result = JSON.parse(content) as { action: string };
-    
-    // Validate the action is one of our enum values
-    const validActions = Object.values(ActionType);
-    if (!validActions.includes(result.action as ActionType)) {
-      console.warn(`Invalid action received: ${result.action}, defaulting to none_applicable`);
-      return ActionType.NONE_APPLICABLE;
-    }
-
-    return result.action as ActionType;
+    const result = await completeStructured("intent", [
+      { role: "system", content: system },
+      {
+        role: "user",
+        content: `Analyze this message and determine the user's intent:\n\n"${messageText}"\n\nReturn only the action type as a JSON object with key "action".`
+      },
+    ], intentSchema);
+
+    return result.action;
   } catch (error) {
     console.error("Error analyzing message intent:", error);
-    // Default to none_applicable on error to avoid unwanted actions
-    return ActionType.NONE_APPLICABLE;
+    // Surface the failure instead of guessing, to avoid unwanted actions
+    return toLLMFailure(error, "Could not understand the request.");
   }
 }
 
@@ -356,20 +449,18 @@ export async function analyzeMessageIntent(messageText: string): Promise<ActionT
  * Analyze a thread with related decisions to determine which decision should be updated
  * @param threadText - The thread text content
  * @param relatedDecisions - Array of related decisions from the database
+ * @param minConfidence - Minimum confidence in the chosen decision
  * @returns Promise<DecisionUpdateAnalysis | { error: string }>
  */
 export async function analyzeDecisionUpdate(
   threadText: string,
-  relatedDecisions: Array<{
-    id: string;
-    title: string;
-    summary: string;
-    tag: string;
-  }>
-): Promise<DecisionUpdateAnalysis | { error: string }> {
+  relatedDecisions: StoredDecision[],
+  minConfidence = DEFAULT_CONFIDENCE_THRESHOLDS.update
+): Promise<DecisionUpdateAnalysis | LLMFailure> {
   if (relatedDecisions.length === 0) {
     return {
-      error: "No related decisions found to update. Please create a new decision instead."
+      error: "No related decisions found to update. Please create a new decision instead.",
+      kind: "not_found",
     };
   }
 
@@ -392,72 +483,45 @@ export async function analyzeDecisionUpdate(
     .join("\n\n");
 
   try {
-    const resp = await client.chat.completions.create({
-      model: "openai/gpt-5-mini",
-      response_format: { type: "json_object" },
-      messages: [
-        { role: "system", content: system },
-        {
-          role: "user",
-          content: `Slack Thread Conversation:
+    const result = await completeStructured("update", [
+      { role: "system", content: system },
+      {
+        role: "user",
+        content: `Slack Thread Conversation:
 ${threadText}
 
 Related Decisions:
 ${relatedDecisionsText}
 
 Analyze the thread and determine which decision should be updated with new information. Provide the updated fields and explain your reasoning.`
-        },
-      ],
-    });
-
-    const content = resp.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error("No content received from OpenAI");
-    }
-
-    const result = JSON.parse(content) as DecisionUpdateAnalysis;
-
-    // Validate the result
-    if (
-      typeof result.decision_id !== "string" ||
-      typeof result.reason !== "string" ||
-      typeof result.confidence !== "number"
-    ) {
-      throw new Error("Invalid response format from LLM");
-    }
-
-    // Validate that the decision_id exists in our related decisions
-    const decisionExists = relatedDecisions.some(decision => decision.id === result.decision_id);
-    if (!decisionExists) {
-      return {
-        error: `Decision ID ${result.decision_id} not found in related decisions.`
-      };
-    }
+      },
+    ], decisionUpdateSchema(relatedDecisions.map((decision) => decision.id)));
 
     // Check confidence threshold
-    if (result.confidence < 60) {
+    if (result.confidence < minConfidence) {
       return {
-        error: `Low confidence (${result.confidence}%) in decision update. Please provide more specific information.`
+        error: `Low confidence (${result.confidence}%) in decision update. Please provide more specific information.`,
+        kind: "low_confidence",
       };
     }
 
     return result;
   } catch (error) {
     console.error("Error analyzing decision update:", error);
-    return {
-      error: "Error occurred while analyzing which decision to update."
-    };
+    return toLLMFailure(error, "Could not work out which decision to update.");
   }
 }
 
 /**
  * Summarize the result of a Slack thread conversation
  * @param threadText - The thread text content
- * @returns Promise<ThreadSummaryResponse | { error: string }>
+ * @param minConfidence - Minimum confidence in the summary
+ * @returns Promise<ThreadSummaryResponse | LLMFailure>
  */
 export async function summarizeThreadResult(
-  threadText: string
-): Promise<ThreadSummaryResponse | { error: string }> {
+  threadText: string,
+  minConfidence = DEFAULT_CONFIDENCE_THRESHOLDS.summary
+): Promise<ThreadSummaryResponse | LLMFailure> {
   const system = [
     "You analyze Slack thread conversations and provide comprehensive summaries of the discussion results.",
     "Return JSON with keys: summary (string - overall summary of the thread), open_points (array of strings - topics discussed but not decided), decisions_made (array of strings - any decisions that were made), next_steps (array of strings - any follow-up actions or next steps mentioned), and confidence (0-100 - confidence in the summary accuracy).",
@@ -467,70 +531,145 @@ export async function summarizeThreadResult(
     "Open points should capture topics, issues, or considerations that were discussed but did not result in a clear decision or conclusion.",
     "Decisions made should list any concrete decisions, choices, or conclusions reached.",
     "Next steps should include any action items, follow-ups, or future work mentioned.",
+    "In each next step, name the person responsible as @ followed by their name exactly as it appears in the thread (e.g. @alice), and state any deadline that was mentioned.",
     "Keep all text concise and actionable. Avoid redundancy between sections.",
     "The confidence should reflect how clear and conclusive the thread discussion was."
   ].join(" ");
 
   try {
-    const resp = await client.chat.completions.create({
-      model: "openai/gpt-5-mini",
-      response_format: { type: "json_object" },
-      messages: [
-        { role: "system", content: system },
-        {
-          role: "user",
-          content: `Analyze this Slack thread conversation and provide a comprehensive summary of the results:\n\nThread:\n${threadText}`
-        },
-      ],
-    });
-
-    const content = resp.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error("No content received from OpenAI");
-    }
-
-    const result = JSON.parse(content) as ThreadSummaryResponse;
-
-    // Validate the result
-    if (
-      typeof result.summary !== "string" ||
-      !Array.isArray(result.open_points) ||
-      !Array.isArray(result.decisions_made) ||
-      !Array.isArray(result.next_steps) ||
-      typeof result.confidence !== "number"
-    ) {
-      throw new Error("Invalid response format from LLM");
-    }
-
-    // Validate array contents
-    for (const point of result.open_points) {
-      if (typeof point !== "string") {
-        throw new Error("Invalid open_points format from LLM");
-      }
-    }
-    for (const decision of result.decisions_made) {
-      if (typeof decision !== "string") {
-        throw new Error("Invalid decisions_made format from LLM");
-      }
-    }
-    for (const step of result.next_steps) {
-      if (typeof step !== "string") {
-        throw new Error("Invalid next_steps format from LLM");
-      }
-    }
+    const result = await completeStructured("summary", [
+      { role: "system", content: system },
+      {
+        role: "user",
+        content: `Analyze this Slack thread conversation and provide a comprehensive summary of the results:\n\nThread:\n${threadText}`
+      },
+    ], threadSummarySchema);
 
     // Check confidence threshold
-    if (result.confidence < 30) {
+    if (result.confidence < minConfidence) {
       return {
-        error: "Thread content is too unclear or incomplete to provide a reliable summary."
+        error: "Thread content is too unclear or incomplete to provide a reliable summary.",
+        kind: "low_confidence",
       };
     }
 
     return result;
   } catch (error) {
     console.error("Error summarizing thread result:", error);
-    return {
-      error: "Error occurred while summarizing the thread conversation."
-    };
+    return toLLMFailure(error, "Could not summarize the thread conversation.");
+  }
+}
+
+/**
+ * Write the opening paragraph of a decision digest
+ * @param periodLabel - Human-readable period, e.g. "12 Oct – 19 Oct 2026"
+ * @param changesText - One line per decision change in the period
+ * @returns Promise<string | LLMFailure> - The paragraph
+ */
+export async function writeDigestIntro(
+  periodLabel: string,
+  changesText: string
+): Promise<string | LLMFailure> {
+  const system = [
+    "You write the opening paragraph of a periodic digest of team decisions posted to Slack.",
+    "Return JSON with key intro: one paragraph of at most 80 words.",
+    "Summarize the main themes and the most significant decisions of the period, and mention reversals or archived decisions if there are any.",
+    "Do not list every decision; the digest lists them below the paragraph.",
+    "Do not include Markdown headings, quotes, or emojis.",
+  ].join(" ");
+
+  try {
+    const { intro } = await completeStructured("digest", [
+      { role: "system", content: system },
+      {
+        role: "user",
+        content: `Period: ${periodLabel}\n\nDecision changes:\n${changesText}`,
+      },
+    ], digestIntroSchema);
+
+    return intro.replace(/\s+/g, " ").trim();
+  } catch (error) {
+    console.error("Error writing digest intro:", error);
+    return toLLMFailure(error, "Could not write the digest introduction.");
+  }
+}
+
+/**
+ * Fit a thread into the prompt budget of the thread-reading tasks (summary,
+ * extraction, related-decision lookups). A thread over the budget is split
+ * into chunks, each chunk is condensed into notes, and the notes take the
+ * place of the thread. Notes that are still too long are condensed again.
+ * @param threadText - The thread text content
+ * @param budget - Token budget for the thread (THREAD_TOKEN_BUDGET)
+ * @returns Promise<CondensedThread | LLMFailure> - Text to send in place of
+ * the thread, and how many parts it was condensed in
+ */
+export async function condenseThread(
+  threadText: string,
+  budget = Number(process.env.THREAD_TOKEN_BUDGET) || 12000
+): Promise<CondensedThread | LLMFailure> {
+  let text = threadText;
+  let parts = 0;
+
+  for (let round = 0; estimateTokens(text) > budget; round++) {
+    if (round === MAX_CONDENSE_ROUNDS) {
+      console.warn("Thread notes still over budget, truncating");
+      text = truncateToTokens(text, budget);
+      break;
+    }
+
+    const chunks = splitIntoChunks(text, budget);
+    console.log(
+      `Condensing thread (~${estimateTokens(text)} tokens) in ${chunks.length} parts`
+    );
+    parts = parts || chunks.length;
+
+    const notes: string[] = [];
+    for (const [index, chunk] of chunks.entries()) {
+      const result = await condenseThreadChunk(chunk, index + 1, chunks.length);
+      if (isLLMFailure(result)) {
+        return result;
+      }
+      notes.push(`[Part ${index + 1} of ${chunks.length}]\n${result}`);
+    }
+    text = notes.join("\n\n");
+  }
+
+  return { text, parts };
+}
+
+/**
+ * Condense one part of a long thread into notes
+ * @param chunk - The part of the thread
+ * @param part - 1-based part number
+ * @param total - Number of parts
+ * @returns Promise<string | LLMFailure> - The notes
+ */
+async function condenseThreadChunk(
+  chunk: string,
+  part: number,
+  total: number
+): Promise<string | LLMFailure> {
+  const system = [
+    "You condense one part of a long Slack thread into notes that a later step will read instead of the thread.",
+    "Return JSON with key notes: plain-text notes of at most 250 words.",
+    "Keep who said what, using the author names as written.",
+    "Keep every proposal, decision and reversal with its rationale, rejected alternatives, open questions, action items with the @name of the person responsible and any deadline, dates, and links.",
+    "Drop greetings, small talk and repetition.",
+  ].join(" ");
+
+  try {
+    const { notes } = await completeStructured("condense", [
+      { role: "system", content: system },
+      {
+        role: "user",
+        content: `Part ${part} of ${total} of the thread:\n\n${chunk}`,
+      },
+    ], threadNotesSchema);
+
+    return notes.trim();
+  } catch (error) {
+    console.error("Error condensing thread:", error);
+    return toLLMFailure(error, "Could not condense this long thread.");
   }
 }
@@ -0,0 +1,118 @@
+import { s, Schema } from "./utils/schema";
+import {
+  ActionType,
+  DecisionRecordFields,
+  DecisionUpdateAnalysis,
+  RelatedDecisionsResponse,
+  ThreadSummaryResponse,
+} from "./types";
+import type { DecisionComparison } from "./llm";
+
+/**
+ * Schemas for the JSON each LLM task must return
+ */
+
+// Participants come from the thread's message authors, not from the model
+type ExtractedRecordFields = Omit<DecisionRecordFields, "participants">;
+
+export interface DecisionExtractionOutput extends ExtractedRecordFields {
+  title: string;
+  summary: string;
+  tag: string;
+  confidence: number;
+}
+
+export const intentSchema: Schema<{ action: ActionType }> = s.object({
+  action: s.enumOf(Object.values(ActionType)),
+});
+
+const decisionRecordShape: {
+  [K in keyof ExtractedRecordFields]-?: Schema<ExtractedRecordFields[K]>;
+} = {
+  // Superseded is set by the bot when a newer decision replaces this one
+  status: s.optional(s.enumOf(["proposed", "accepted", "rejected"] as const)),
+  context: s.optional(s.string()),
+  rationale: s.optional(s.string()),
+  alternatives: s.optional(s.array(s.string(), { maxItems: 5 })),
+  consequences: s.optional(s.string()),
+  owner: s.optional(s.string({ maxLength: 80 })),
+  decision_date: s.optional(s.string({ maxLength: 10 })),
+  decided_by: s.optional(s.string({ maxLength: 80 })),
+  tags: s.optional(s.array(s.string({ minLength: 1, maxLength: 40 }), { maxItems: 3 })),
+};
+
+export const decisionExtractionSchema: Schema<DecisionExtractionOutput> =
+  s.object<DecisionExtractionOutput>({
+    title: s.string({ minLength: 1, maxLength: 80 }),
+    summary: s.string({ minLength: 1 }),
+    tag: s.string({ minLength: 1, maxLength: 40 }),
+    confidence: s.number({ min: 0, max: 100 }),
+    ...decisionRecordShape,
+  });
+
+export const decisionListSchema: Schema<{ decisions: DecisionExtractionOutput[] }> =
+  s.object<{ decisions: DecisionExtractionOutput[] }>({
+    decisions: s.array(decisionExtractionSchema, { maxItems: 10 }),
+  });
+
+/**
+ * @param decisionIds - IDs of the decisions offered for comparison
+ */
+export const decisionComparisonSchema = (
+  decisionIds: string[]
+): Schema<DecisionComparison> =>
+  s.object<DecisionComparison>({
+    similar: s.boolean(),
+    similarity_score: s.number({ min: 0, max: 100 }),
+    existing_decision_id: s.optional(s.enumOf(decisionIds)),
+    reason: s.optional(s.string()),
+  });
+
+/**
+ * @param decisionCount - Number of decisions offered (ids are 1-based positions)
+ */
+export const relatedDecisionsSchema = (
+  decisionCount: number
+): Schema<RelatedDecisionsResponse> =>
+  s.object<RelatedDecisionsResponse>({
+    summary: s.string(),
+    related_decisions: s.array(
+      s.object({
+        id: s.number({ min: 1, max: decisionCount, integer: true }),
+        title: s.string({ minLength: 1 }),
+        summary: s.string(),
+      })
+    ),
+  });
+
+/**
+ * @param decisionIds - IDs of the decisions that may be updated
+ */
+export const decisionUpdateSchema = (
+  decisionIds: string[]
+): Schema<DecisionUpdateAnalysis> =>
+  s.object<DecisionUpdateAnalysis>({
+    decision_id: s.enumOf(decisionIds),
+    updated_title: s.optional(s.string({ maxLength: 80 })),
+    updated_summary: s.optional(s.string()),
+    updated_tag: s.optional(s.string()),
+    reason: s.string(),
+    confidence: s.number({ min: 0, max: 100 }),
+  });
+
+export const digestIntroSchema: Schema<{ intro: string }> = s.object({
+  intro: s.string({ minLength: 1 }),
+});
+
+export const threadNotesSchema: Schema<{ notes: string }> = s.object({
+  notes: s.string({ minLength: 1 }),
+});
+
+export const threadSummarySchema: Schema<ThreadSummaryResponse> =
+  s.object<ThreadSummaryResponse>({
+    summary: s.string({ minLength: 1 }),
+    open_points: s.array(s.string(), { maxItems: 4 }),
+    decisions_made: s.array(s.string()),
+    next_steps: s.array(s.string()),
+    confidence: s.number({ min: 0, max: 100 }),
+  });
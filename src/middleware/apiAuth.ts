@@ -0,0 +1,78 @@
+import crypto from "crypto"
+import { NextFunction, Request, Response } from "express"
+
+/**
+ * Read the configured API tokens (API_TOKENS, comma-separated, so a new
+ * token can be issued before an old one is revoked)
+ */
+function configuredTokens(): string[] {
+	return (process.env.API_TOKENS || "")
+		.split(",")
+		.map((token) => token.trim())
+		.filter(Boolean)
+}
+
+/**
+ * Compare two tokens in constant time. Hashing first keeps the comparison
+ * length-independent.
+ */
+function tokensMatch(given: string, expected: string): boolean {
+	const a = crypto.createHash("sha256").update(given).digest()
+	const b = crypto.createHash("sha256").update(expected).digest()
+	return crypto.timingSafeEqual(a, b)
+}
+
+/**
+ * Middleware that only lets through requests carrying a configured API token
+ * as `Authorization: Bearer <token>`
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Next handler
+ */
+export function requireApiToken(req: Request, res: Response, next: NextFunction): void {
+	const tokens = configuredTokens()
+	if (tokens.length === 0) {
+		res.status(503).json({ error: "API is disabled: no API_TOKENS configured" })
+		return
+	}
+
+	const match = (req.headers.authorization || "").match(/^Bearer\s+(.+)$/i)
+	const given = match?.[1].trim()
+	if (!given || !tokens.some((token) => tokensMatch(given, token))) {
+		res.set("WWW-Authenticate", "Bearer").status(401).json({ error: "Invalid or missing API token" })
+		return
+	}
+
+	next()
+}
+
+/**
+ * Middleware that asks for the dashboard password (HTTP Basic auth, any
+ * user name) set in DASHBOARD_PASSWORD. Without a password the dashboard is
+ * disabled, unless DASHBOARD_PUBLIC=true opens it for deployments that sit
+ * behind an internal network or proxy.
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Next handler
+ */
+export function requireDashboardLogin(req: Request, res: Response, next: NextFunction): void {
+	const password = process.env.DASHBOARD_PASSWORD
+	if (!password) {
+		if (process.env.DASHBOARD_PUBLIC === "true") {
+			next()
+			return
+		}
+		res.status(503).send("Dashboard is disabled: set DASHBOARD_PASSWORD, or DASHBOARD_PUBLIC=true to open it")
+		return
+	}
+
+	const match = (req.headers.authorization || "").match(/^Basic\s+(.+)$/i)
+	const credentials = match ? Buffer.from(match[1], "base64").toString("utf8") : ""
+	const given = credentials.slice(credentials.indexOf(":") + 1)
+	if (!match || !tokensMatch(given, password)) {
+		res.set("WWW-Authenticate", 'Basic realm="Decision Log"').status(401).send("Authentication required")
+		return
+	}
+
+	next()
+}
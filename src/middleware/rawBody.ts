@@ -0,0 +1,17 @@
+import { IncomingMessage } from "http"
+
+/**
+ * Body-parser `verify` hook that keeps the exact request bytes on
+ * `req.rawBody`. Slack signs the raw body, so signature checks must not be
+ * computed from the parsed (and re-serialized) body.
+ * @param req - Incoming request
+ * @param _res - Server response (unused)
+ * @param buf - Raw request body
+ */
+export function captureRawBody(
+	req: IncomingMessage,
+	_res: unknown,
+	buf: Buffer,
+): void {
+	;(req as IncomingMessage & { rawBody?: string }).rawBody = buf.toString("utf8")
+}
@@ -1,47 +1,105 @@
 import crypto from "crypto"
-import { ExtendedRequest } from "../types"
+import {
+	ExtendedRequest,
+	SignatureRejectionReason,
+	SignatureVerificationResult,
+} from "../types"
+
+const rejectionCounts: Record<SignatureRejectionReason, number> = {
+	no_secret_configured: 0,
+	missing_headers: 0,
+	missing_raw_body: 0,
+	invalid_timestamp: 0,
+	stale_timestamp: 0,
+	malformed_signature: 0,
+	signature_mismatch: 0,
+}
+
+/**
+ * Number of rejected requests per reason since the process started
+ */
+export function getSignatureRejectionCounts(): Record<SignatureRejectionReason, number> {
+	return { ...rejectionCounts }
+}
 
 /**
  * Middleware for verifying Slack request signatures
  */
 export class SlackVerification {
-	private signingSecret: string | undefined
+	private signingSecrets: string[]
 
 	constructor() {
-		this.signingSecret = process.env.SLACK_SIGNING_SECRET
+		// SLACK_SIGNING_SECRETS holds a comma-separated list of active secrets so
+		// a new secret can be added before the old one is retired
+		this.signingSecrets = [
+			...(process.env.SLACK_SIGNING_SECRETS || "").split(","),
+			process.env.SLACK_SIGNING_SECRET || "",
+		]
+			.map((secret) => secret.trim())
+			.filter((secret, index, all) => secret && all.indexOf(secret) === index)
 	}
 
 	/**
-	 * Verify Slack request signature
-	 * @param req - Express request object
-	 * @returns True if signature is valid
+	 * Verify Slack request signature against the raw request body
+	 * @param req - Express request object with rawBody captured
+	 * @returns The verification result, with the rejection reason if invalid
 	 */
-	verify(req: ExtendedRequest): boolean {
-		if (!this.signingSecret) {
-			console.warn("SLACK_SIGNING_SECRET not configured")
-			return false
+	verify(req: ExtendedRequest): SignatureVerificationResult {
+		const result = this.check(req)
+		if (!result.valid) {
+			rejectionCounts[result.reason]++
+			console.warn(
+				`Slack signature rejected: ${result.reason} (total ${rejectionCounts[result.reason]})`,
+			)
+		}
+		return result
+	}
+
+	private check(req: ExtendedRequest): SignatureVerificationResult {
+		if (this.signingSecrets.length === 0) {
+			return { valid: false, reason: "no_secret_configured" }
 		}
 
 		const ts = req.headers["x-slack-request-timestamp"] as string
 		const sig = req.headers["x-slack-signature"] as string
 
 		if (!ts || !sig) {
-			return false
+			return { valid: false, reason: "missing_headers" }
+		}
+
+		if (req.rawBody === undefined) {
+			return { valid: false, reason: "missing_raw_body" }
+		}
+
+		const timestamp = Number(ts)
+		if (!Number.isFinite(timestamp)) {
+			return { valid: false, reason: "invalid_timestamp" }
 		}
 
 		// Prevent replay attacks (5 minute window)
-		if (Math.abs(Date.now() / 1000 - Number(ts)) > 60 * 5) {
-			return false
+		if (Math.abs(Date.now() / 1000 - timestamp) > 60 * 5) {
+			return { valid: false, reason: "stale_timestamp" }
+		}
+
+		if (!/^v0=[a-f0-9]{64}$/.test(sig)) {
+			return { valid: false, reason: "malformed_signature" }
 		}
 
-		// Verify signature
-		const basestring = `v0:${ts}:${JSON.stringify(req.body)}`
-		const hmac = crypto
-			.createHmac("sha256", this.signingSecret)
-			.update(basestring)
-			.digest("hex")
-		const expected = `v0=${hmac}`
+		// Verify signature against every active secret
+		const basestring = `v0:${ts}:${req.rawBody}`
+		const received = Buffer.from(sig)
+		const matches = this.signingSecrets.some((secret) => {
+			const hmac = crypto
+				.createHmac("sha256", secret)
+				.update(basestring)
+				.digest("hex")
+			const expected = Buffer.from(`v0=${hmac}`)
+			return (
+				expected.length === received.length &&
+				crypto.timingSafeEqual(received, expected)
+			)
+		})
 
-		return crypto.timingSafeEqual(Buffer.from(sig), Buffer.from(expected))
+		return matches ? { valid: true } : { valid: false, reason: "signature_mismatch" }
 	}
 }
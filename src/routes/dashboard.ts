@@ -0,0 +1,168 @@
+import { Request, Response } from "express";
+import { DecisionServices } from "../services/decisionRepository";
+import { StoredDecision } from "../types";
+import { currentVersionOf, supersededVersionsOf } from "../utils/decisionChain";
+import { filterDecisions, parseDecisionFilters } from "../utils/decisionFilters";
+import { tagsOf } from "../utils/tags";
+import {
+  ListFilterValues,
+  renderDecisionDetail,
+  renderDecisionList,
+  renderNotFound,
+  renderTimeline,
+} from "../views/dashboard";
+
+const PAGE_SIZE = 50;
+const RELATED_DECISIONS = 5;
+
+/**
+ * Read-only web dashboard for people who cannot open the Notion database.
+ * Pages are rendered on the server from the same repository the bot uses.
+ */
+export class DashboardHandler {
+  private services: DecisionServices;
+
+  constructor(services: DecisionServices) {
+    this.services = services;
+  }
+
+  /**
+   * GET /dashboard - filterable, paginated decision table
+   * @param req - Express request object
+   * @param res - Express response object
+   */
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      const all = await this.services.decisionRepository.getAllDecisions();
+      const values = this.filterValues(req);
+      const parsed = parseDecisionFilters({ ...values });
+      const decisions = parsed.ok ? filterDecisions(all, parsed.filters) : [];
+
+      const pageCount = Math.ceil(decisions.length / PAGE_SIZE);
+      const page = Math.min(
+        Math.max(Number(req.query.page) || 1, 1),
+        Math.max(pageCount, 1)
+      );
+
+      res.send(
+        renderDecisionList({
+          decisions: decisions.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE),
+          total: decisions.length,
+          page,
+          pageCount,
+          filters: values,
+          ...this.filterOptions(all),
+          error: parsed.ok ? undefined : parsed.error,
+        })
+      );
+    } catch (error) {
+      this.sendError(res, error);
+    }
+  }
+
+  /**
+   * GET /dashboard/decisions/:id - one decision with its thread link,
+   * supersede chain and related decisions
+   * @param req - Express request object
+   * @param res - Express response object
+   */
+  async detail(req: Request, res: Response): Promise<void> {
+    try {
+      const { decisionRepository, decisionIndex } = this.services;
+      const all = await decisionRepository.getAllDecisions();
+      const decision = all.find((candidate) => candidate.id === req.params.id);
+      if (!decision) {
+        res.status(404).send(renderNotFound());
+        return;
+      }
+
+      const current = currentVersionOf(decision, all);
+      const previousVersions = supersededVersionsOf(decision, all);
+      const chainIds = new Set([
+        decision.id,
+        current.id,
+        ...previousVersions.map((version) => version.id),
+      ]);
+
+      let related: StoredDecision[] = [];
+      try {
+        related = await decisionIndex.rank(
+          `${decision.title}\n${decision.summary}\n${decision.tag}`,
+          all.filter((candidate) => !chainIds.has(candidate.id)),
+          RELATED_DECISIONS
+        );
+      } catch (error) {
+        console.error("Failed to rank related decisions:", error);
+      }
+
+      res.send(
+        renderDecisionDetail({
+          decision,
+          previousVersions,
+          supersededBy: current.id !== decision.id ? current : undefined,
+          related,
+        })
+      );
+    } catch (error) {
+      this.sendError(res, error);
+    }
+  }
+
+  /**
+   * GET /dashboard/timeline - decisions grouped by month
+   * @param req - Express request object
+   * @param res - Express response object
+   */
+  async timeline(req: Request, res: Response): Promise<void> {
+    try {
+      const all = await this.services.decisionRepository.getAllDecisions();
+      const values = this.filterValues(req);
+      const parsed = parseDecisionFilters({ ...values });
+
+      res.send(
+        renderTimeline({
+          decisions: parsed.ok ? filterDecisions(all, parsed.filters) : [],
+          filters: values,
+          ...this.filterOptions(all),
+        })
+      );
+    } catch (error) {
+      this.sendError(res, error);
+    }
+  }
+
+  private filterValues(req: Request): ListFilterValues {
+    const value = (key: string) =>
+      typeof req.query[key] === "string"
+        ? (req.query[key] as string)
+        : undefined;
+    return {
+      q: value("q"),
+      tag: value("tag"),
+      channel: value("channel"),
+      status: value("status"),
+      from: value("from"),
+      to: value("to"),
+    };
+  }
+
+  /**
+   * Distinct tags and channels, for the filter dropdowns
+   */
+  private filterOptions(decisions: StoredDecision[]): {
+    tags: string[];
+    channels: string[];
+  } {
+    const distinct = (values: Array<string | undefined>) =>
+      [...new Set(values.filter((value): value is string => Boolean(value)))].sort();
+    return {
+      tags: distinct(decisions.flatMap((decision) => tagsOf(decision))),
+      channels: distinct(decisions.map((decision) => decision.slack_channel)),
+    };
+  }
+
+  private sendError(res: Response, error: unknown): void {
+    console.error("Error rendering dashboard:", error);
+    res.status(500).send("Failed to load decisions");
+  }
+}
@@ -0,0 +1,304 @@
+import { Request, Response } from "express";
+import {
+  archiveDecision,
+  ChangeContext,
+  changeDecision,
+  createDecision,
+} from "../services/decisionChanges";
+import { DecisionServices } from "../services/decisionRepository";
+import { TagService } from "../services/tagService";
+import {
+  DECISION_STATUSES,
+  DecisionRecordFields,
+  NotionDatabaseEntry,
+} from "../types";
+import { filterDecisions, parseDecisionFilters } from "../utils/decisionFilters";
+import { s, Schema, validate } from "../utils/schema";
+import { tagsOf } from "../utils/tags";
+
+interface DecisionInput extends DecisionRecordFields {
+  title: string;
+  summary: string;
+  tag: string;
+  slack_thread?: string;
+  slack_channel?: string;
+  /** Slack workspace the decision belongs to; only set on create */
+  team_id?: string;
+}
+
+const recordFieldsShape = {
+  status: s.optional(s.enumOf(DECISION_STATUSES)),
+  context: s.optional(s.string()),
+  rationale: s.optional(s.string()),
+  alternatives: s.optional(s.array(s.string())),
+  consequences: s.optional(s.string()),
+  owner: s.optional(s.string()),
+  decision_date: s.optional(s.string()),
+  decided_by: s.optional(s.string()),
+  participants: s.optional(s.array(s.string())),
+  tags: s.optional(s.array(s.string({ minLength: 1, maxLength: 40 }), { maxItems: 10 })),
+  slack_thread: s.optional(s.string()),
+  slack_channel: s.optional(s.string()),
+};
+
+const createSchema: Schema<DecisionInput> = s.object<DecisionInput>({
+  title: s.string({ minLength: 1, maxLength: 80 }),
+  summary: s.string({ minLength: 1 }),
+  tag: s.string({ minLength: 1, maxLength: 40 }),
+  ...recordFieldsShape,
+  team_id: s.optional(s.string({ minLength: 1 })),
+});
+
+// A decision stays in the workspace it was created in
+type DecisionPatch = Partial<Omit<DecisionInput, "team_id">>;
+
+const patchSchema: Schema<DecisionPatch> = s.object<DecisionPatch>({
+  title: s.optional(s.string({ minLength: 1, maxLength: 80 })),
+  summary: s.optional(s.string({ minLength: 1 })),
+  tag: s.optional(s.string({ minLength: 1, maxLength: 40 })),
+  ...recordFieldsShape,
+});
+
+const INPUT_FIELDS = [
+  "title",
+  "summary",
+  "tag",
+  ...Object.keys(recordFieldsShape),
+] as Array<keyof DecisionInput>;
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * REST API over the decision log, for internal tools that should not need
+ * Notion credentials. Reads and writes go through the same repository,
+ * index and revision log as the Slack handlers.
+ */
+export class DecisionsApiHandler {
+  private services: DecisionServices;
+  private tagService: TagService;
+
+  constructor(services: DecisionServices) {
+    this.services = services;
+    this.tagService = new TagService();
+  }
+
+  /**
+   * GET /api/decisions - list decisions, newest first
+   * Query: tag, channel, status, from, to (ISO dates), q (text), limit, offset
+   * @param req - Express request object
+   * @param res - Express response object
+   */
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      const query = req.query as Record<string, string | undefined>;
+      const limit = Math.min(
+        Number(query.limit) || DEFAULT_PAGE_SIZE,
+        MAX_PAGE_SIZE
+      );
+      const offset = Number(query.offset) || 0;
+      const parsed = parseDecisionFilters(query);
+
+      if (!parsed.ok || limit < 1 || offset < 0) {
+        res.status(400).json({
+          error: parsed.ok ? "limit and offset must be positive numbers" : parsed.error,
+        });
+        return;
+      }
+
+      const decisions = filterDecisions(
+        await this.services.decisionRepository.getAllDecisions(),
+        parsed.filters
+      );
+
+      const page = decisions.slice(offset, offset + limit);
+      res.json({
+        decisions: page,
+        total: decisions.length,
+        limit,
+        offset,
+        next_offset:
+          offset + page.length < decisions.length ? offset + page.length : null,
+      });
+    } catch (error) {
+      this.sendError(res, "Failed to list decisions", error);
+    }
+  }
+
+  /**
+   * GET /api/decisions/:id
+   * @param req - Express request object
+   * @param res - Express response object
+   */
+  async get(req: Request, res: Response): Promise<void> {
+    try {
+      const decision = await this.services.decisionRepository.getDecision(
+        req.params.id
+      );
+      if (!decision) {
+        res.status(404).json({ error: "Decision not found" });
+        return;
+      }
+      res.json(decision);
+    } catch (error) {
+      this.sendError(res, "Failed to get decision", error);
+    }
+  }
+
+  /**
+   * POST /api/decisions
+   * @param req - Express request object (JSON body with title, summary, tag,
+   * optional record fields and the optional team_id of its workspace)
+   * @param res - Express response object
+   */
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const result = validate(createSchema, req.body);
+      if (!result.ok) {
+        res.status(400).json({ error: "Invalid decision", details: result.errors });
+        return;
+      }
+
+      const input = this.pickInput(result.value) as DecisionInput;
+      const teamId = result.value.team_id;
+      const tags = await this.tagService.canonicalize(teamId, tagsOf(input));
+      const entry: NotionDatabaseEntry = {
+        ...input,
+        tag: tags[0],
+        tags,
+        slack_thread: input.slack_thread || "",
+        slack_channel: input.slack_channel || "",
+        team_id: teamId,
+        date_timestamp: new Date().toISOString(),
+      };
+
+      const addResult = await createDecision(
+        this.services,
+        entry,
+        this.apiChange(teamId)
+      );
+      if (!addResult.success || !addResult.page_id) {
+        res.status(502).json({ error: addResult.error || "Failed to add decision" });
+        return;
+      }
+      await this.tagService.register(teamId, tags);
+
+      const created = await this.services.decisionRepository.getDecision(
+        addResult.page_id
+      );
+      res.status(201).json(created || { ...entry, id: addResult.page_id });
+    } catch (error) {
+      this.sendError(res, "Failed to create decision", error);
+    }
+  }
+
+  /**
+   * PATCH /api/decisions/:id
+   * @param req - Express request object (JSON body with the fields to change)
+   * @param res - Express response object
+   */
+  async patch(req: Request, res: Response): Promise<void> {
+    try {
+      const result = validate(patchSchema, req.body);
+      if (!result.ok) {
+        res.status(400).json({ error: "Invalid decision", details: result.errors });
+        return;
+      }
+
+      const { decisionRepository } = this.services;
+      const previous = await decisionRepository.getDecision(req.params.id);
+      if (!previous) {
+        res.status(404).json({ error: "Decision not found" });
+        return;
+      }
+
+      const changes = this.pickInput(result.value);
+      if (changes.tag || changes.tags?.length) {
+        // A new main tag goes first; without a tag list the decision keeps
+        // its other tags
+        const tags = await this.tagService.canonicalize(previous.team_id, [
+          changes.tag,
+          ...(changes.tags || tagsOf(previous)),
+        ]);
+        changes.tag = tags[0];
+        changes.tags = tags;
+      }
+
+      const updateResult = await changeDecision(
+        this.services,
+        previous.id,
+        changes,
+        this.apiChange(previous.team_id),
+        previous
+      );
+      if (!updateResult.success) {
+        res.status(502).json({ error: updateResult.error || "Failed to update decision" });
+        return;
+      }
+      await this.tagService.register(previous.team_id, changes.tags || []);
+
+      res.json((await decisionRepository.getDecision(previous.id)) || previous);
+    } catch (error) {
+      this.sendError(res, "Failed to update decision", error);
+    }
+  }
+
+  /**
+   * DELETE /api/decisions/:id - archive a decision (it stays in the store's
+   * archive, like deletions from Slack)
+   * @param req - Express request object
+   * @param res - Express response object
+   */
+  async archive(req: Request, res: Response): Promise<void> {
+    try {
+      const { decisionRepository } = this.services;
+      const decision = await decisionRepository.getDecision(req.params.id);
+      if (!decision) {
+        res.status(404).json({ error: "Decision not found" });
+        return;
+      }
+
+      const deleteResult = await archiveDecision(
+        this.services,
+        decision,
+        this.apiChange(decision.team_id)
+      );
+      if (!deleteResult.success) {
+        res.status(502).json({ error: deleteResult.error || "Failed to archive decision" });
+        return;
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      this.sendError(res, "Failed to archive decision", error);
+    }
+  }
+
+  /**
+   * Keep only the fields a client may set
+   */
+  private pickInput(body: Partial<DecisionInput>): Partial<DecisionInput> {
+    const input: Record<string, unknown> = {};
+    for (const field of INPUT_FIELDS) {
+      if (body[field] !== undefined && body[field] !== null) {
+        input[field] = body[field];
+      }
+    }
+    return input as Partial<DecisionInput>;
+  }
+
+  /**
+   * Where an API change came from. API changes have no Slack thread, so they
+   * are logged under the "api" channel, in the decision's workspace.
+   */
+  private apiChange(teamId?: string): ChangeContext {
+    return { channel: "api", thread_ts: "", team_id: teamId };
+  }
+
+  private sendError(res: Response, message: string, error: unknown): void {
+    console.error(`${message}:`, error);
+    res.status(500).json({
+      error: `${message}: ${error instanceof Error ? error.message : "Unknown error"}`,
+    });
+  }
+}
@@ -1,15 +1,31 @@
 import { Request, Response } from "express"
+import { getSignatureRejectionCounts } from "../middleware/slackVerification"
 
 /**
- * Health check route handler
+ * Health check route handler. Public, so it only reports liveness.
  * @param req - Express request object
  * @param res - Express response object
  */
 export function healthCheck(req: Request, res: Response): void {
+	res.json({
+		status: "healthy",
+		timestamp: new Date().toISOString(),
+		uptime: process.uptime(),
+	})
+}
+
+/**
+ * Detailed health route handler, with the signature rejection counts. Mount
+ * it behind the API token.
+ * @param req - Express request object
+ * @param res - Express response object
+ */
+export function healthDetails(req: Request, res: Response): void {
 	res.json({
 		status: "healthy",
 		timestamp: new Date().toISOString(),
 		uptime: process.uptime(),
 		environment: process.env.NODE_ENV || "development",
+		signature_rejections: getSignatureRejectionCounts(),
 	})
 }
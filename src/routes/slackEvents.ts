@@ -1,30 +1,159 @@
 import { Request, Response } from "express";
 import { SlackService } from "../services/slackService";
-import { NotionService } from "../services/notionService";
+import { SlackInstallationService } from "../services/slackInstallationService";
+import {
+  createDecisionServices,
+  DecisionServices,
+  DecisionServicesPool,
+} from "../services/decisionRepository";
+import { ChannelConfigService } from "../services/channelConfigService";
+import {
+  archiveDecision,
+  changeDecision,
+  createDecision,
+} from "../services/decisionChanges";
+import { RevisionService } from "../services/revisionService";
+import { PendingActionService } from "../services/pendingActionService";
+import { EventDeduplicationService } from "../services/eventDeduplicationService";
+import { NewFollowUpTask, TaskService } from "../services/taskService";
+import { TagChangeResult, TagService } from "../services/tagService";
+import { isLLMFailure } from "../services/structuredOutput";
 import { SlackVerification } from "../middleware/slackVerification";
-import { extractDecisionFromThread, compareDecisionWithExisting, findRelatedDecisions, analyzeMessageIntent, analyzeDecisionUpdate, summarizeThreadResult } from "../llm";
+import { extractDecisionFromThread, extractDecisionsFromThread, compareDecisionWithExisting, findRelatedDecisions, analyzeMessageIntent, analyzeDecisionUpdate, summarizeThreadResult, condenseThread } from "../llm";
 import {
   SlackRequestBody,
   ExtendedRequest,
   DecisionExtraction,
   ActionType,
+  PendingAction,
   PendingDeletion,
+  DecisionFields,
+  StoredDecision,
+  SlackInteractionPayload,
+  DecisionCandidate,
+  DecisionRecordFields,
+  FollowUpTask,
+  ThreadMessage,
+  LLMFailure,
+  NotionDatabaseEntry,
+  NotionOperationResult,
+  ChannelConfig,
+  ChannelSettingKey,
+  ChannelSettings,
 } from "../types";
+import {
+  buildDecisionCandidatesBlocks,
+  buildDeleteConfirmationBlocks,
+  formatDecisionRecord,
+  LOG_DECISIONS_SELECT_ACTION,
+} from "../utils/slackBlocks";
+import { prependTruncationNote } from "../utils/stringUtils";
+import {
+  ConfigCommand,
+  formatSettingValue,
+  parseConfigCommand,
+  parseSettingValue,
+  SETTING_KEYS,
+} from "../utils/channelConfigCommand";
+import {
+  canonicalTags,
+  parseTagCommand,
+  TagCommand,
+  tagsOf,
+} from "../utils/tags";
+import { pickFields, restoreChanges, snapshotOf } from "../utils/decisionSnapshot";
+import {
+  currentVersionOf,
+  supersededVersionsOf,
+} from "../utils/decisionChain";
+import {
+  parseDueDate,
+  parseMentions,
+  parseTaskNumbers,
+} from "../utils/taskParsing";
+import {
+  extractCommandText,
+  formatThreadTranscript,
+  linkMentions,
+  threadParticipants,
+  unresolvedMentions,
+} from "../utils/threadTranscript";
+
+const CONFIG_USAGE = [
+  "Use `config show`, `config set <setting> <value>` or `config unset <setting>`.",
+  "Put `workspace` after `config` to change the defaults for every channel.",
+  `Settings: ${SETTING_KEYS.join(", ")}.`,
+].join(" ");
+
+const TAGS_USAGE = [
+  "Use `tags` to list the tags, `tags rename <tag> to <new name>`,",
+  "`tags merge <tag> into <tag>` or `tags alias <alias> for <tag>`.",
+].join(" ");
+
+// Settings that choose which decision store a channel reads and writes
+const STORE_SETTING_KEYS: ChannelSettingKey[] = ["store", "notion_database"];
+
+const DELETE_DECISION_ACTION = "delete_decision";
+const LOG_DECISIONS_ACTION = "log_decisions";
+
+// Actions whose LLM flows read the whole thread, condensed when it is long.
+// Delete, history and revert read it to find the decision meant.
+const THREAD_READING_ACTIONS: ActionType[] = [
+  ActionType.CREATE,
+  ActionType.UPDATE,
+  ActionType.READ,
+  ActionType.DELETE,
+  ActionType.SUMMARY,
+  ActionType.HISTORY,
+  ActionType.REVERT,
+];
+
+interface PendingDecisionCandidates {
+  candidates: DecisionCandidate[];
+  channel_name: string;
+}
 
 /**
  * Slack events route handler
  */
 export class SlackEventsHandler {
-  private slackService: SlackService;
-  private notionService: NotionService;
+  private installations: SlackInstallationService;
+  private decisionServices: DecisionServicesPool;
+  private channelConfig: ChannelConfigService;
+  private revisionService: RevisionService;
   private slackVerification: SlackVerification;
-  private pendingDeletions: Map<string, PendingDeletion>;
+  private pendingActions: PendingActionService;
+  private eventDeduplication: EventDeduplicationService;
+  private taskService: TaskService;
+  private tagService: TagService;
 
-  constructor() {
-    this.slackService = new SlackService();
-    this.notionService = new NotionService();
+  /**
+   * @param decisionServices - Decision services for each store, shared with
+   * the REST API so both write through the same stores
+   * @param installations - Workspace installations, for the Slack client of
+   * each workspace
+   * @param channelConfig - Per-channel settings
+   */
+  constructor(
+    decisionServices: DecisionServicesPool = new DecisionServicesPool(
+      createDecisionServices()
+    ),
+    installations: SlackInstallationService = new SlackInstallationService(),
+    channelConfig: ChannelConfigService = new ChannelConfigService()
+  ) {
+    this.installations = installations;
+    this.decisionServices = decisionServices;
+    this.channelConfig = channelConfig;
+    this.revisionService = decisionServices.defaults.revisionService;
     this.slackVerification = new SlackVerification();
-    this.pendingDeletions = new Map();
+    this.pendingActions = new PendingActionService();
+    this.eventDeduplication = new EventDeduplicationService();
+    this.taskService = new TaskService();
+    this.tagService = new TagService();
+    this.pendingActions.startSweeper((action) =>
+      this.notifyPendingActionExpired(action)
+    );
+    this.taskService.startReminders((task) => this.remindAboutTask(task));
   }
 
   /**
@@ -35,6 +164,14 @@ export class SlackEventsHandler {
   async handleEvents(req: ExtendedRequest, res: Response): Promise<void> {
     console.log("Received request to /slack/events");
 
+    // Verify signature for every request, including URL verification
+    const verification = this.slackVerification.verify(req);
+    if (!verification.valid) {
+      console.log(`Signature verification failed: ${verification.reason}`);
+      res.status(401).send("bad sig");
+      return;
+    }
+
     // Handle URL verification
     if (req.body?.type === "url_verification") {
       console.log("URL verification request:", req.body.challenge);
@@ -42,10 +179,34 @@ export class SlackEventsHandler {
       return;
     }
 
-    // Verify signature for other requests
-    if (!this.slackVerification.verify(req)) {
-      console.log("Signature verification failed");
-      res.status(401).send("bad sig");
+    const body = req.body as SlackRequestBody;
+    const retryNum = req.headers["x-slack-retry-num"];
+    const retryReason = req.headers["x-slack-retry-reason"];
+    if (retryNum) {
+      console.log(
+        `Slack retry #${retryNum} (${retryReason || "unknown reason"}) for event ${body.event_id}`
+      );
+    }
+
+    // Claim the event before acknowledging so retries of an event that is
+    // still being processed (or already done) are not handled again
+    const dedupKeys = EventDeduplicationService.keysFor(
+      body.event_id,
+      body.event?.channel,
+      body.event?.ts
+    );
+    let previousState: string | null = null;
+    try {
+      previousState = await this.eventDeduplication.claim(dedupKeys);
+    } catch (error) {
+      // An unreadable dedup store must not stop Slack from getting its ack
+      console.error("Event deduplication failed, processing anyway:", error);
+    }
+    if (previousState) {
+      console.log(
+        `Skipping duplicate delivery of event ${body.event_id} (${previousState})`
+      );
+      res.status(200).send();
       return;
     }
 
@@ -53,7 +214,15 @@ export class SlackEventsHandler {
     res.status(200).send(); // Acknowledge immediately
 
     // Process the event
-    await this.processEvent(req.body as SlackRequestBody);
+    try {
+      await this.processEvent(body);
+    } catch (error) {
+      console.error("Error processing Slack event:", error);
+    } finally {
+      await this.eventDeduplication.complete(dedupKeys).catch((error) =>
+        console.error("Failed to mark event as processed:", error)
+      );
+    }
   }
 
   /**
@@ -62,19 +231,36 @@ export class SlackEventsHandler {
    */
   private async processEvent(body: SlackRequestBody): Promise<void> {
     const evt = body?.event;
+    // Forget a workspace once the app is uninstalled or its bot token revoked
+    const uninstalled =
+      evt?.type === "app_uninstalled" ||
+      (evt?.type === "tokens_revoked" && Boolean(evt.tokens?.bot?.length));
+    if (uninstalled) {
+      if (body.team_id && (await this.installations.remove(body.team_id))) {
+        console.log(`Removed installation for team ${body.team_id} (${evt.type})`);
+      }
+      return;
+    }
     if (!evt || evt.type !== "app_mention") {
       return;
     }
 
     console.log("Processing app mention event:", evt);
 
+    const slack = await this.installations.clientFor(body.team_id);
+    if (!slack) {
+      console.warn(`Ignoring mention from team ${body.team_id}: app is not installed there`);
+      return;
+    }
+
     const channel = evt.channel;
     const thread_ts = evt.thread_ts ?? evt.ts;
+    const user = evt.user;
 
     // Get channel information
     let channelName = channel;
     try {
-      const channelInfo = await this.slackService.getChannelInfo(channel);
+      const channelInfo = await slack.getChannelInfo(channel);
       if (channelInfo) {
         channelName = channelInfo.name;
         console.log("Channel info:", channelInfo);
@@ -84,109 +270,284 @@ export class SlackEventsHandler {
     }
 
     // Build thread URL
-    const threadUrl = this.slackService.buildThreadUrl(
-      channel,
-      thread_ts,
-      channelName
-    );
+    const threadUrl = await slack.getThreadUrl(channel, thread_ts);
     console.log("Thread URL:", threadUrl);
 
-    // Test user token
-    try {
-      const resp = await this.slackService.apiCall(
-        "auth.test",
-        {},
-        this.slackService.getUserToken()!
-      );
-      console.log("User token test:", resp);
-    } catch (error) {
-      console.error("User token test failed:", error);
+    // Test user token, if the installation has one
+    if (slack.getUserToken()) {
+      try {
+        const resp = await slack.apiCall(
+          "auth.test",
+          {},
+          slack.getUserToken()!
+        );
+        console.log("User token test:", resp);
+      } catch (error) {
+        console.error("User token test failed:", error);
+      }
     }
 
     // Get thread messages
-    let threadText = evt.text;
+    let messages: ThreadMessage[];
+    let threadTruncated = false;
     try {
-      const replies = await this.slackService.formCall(
-        "conversations.replies",
-        { channel, ts: thread_ts }
+      const thread = await slack.fetchThreadMessages(
+        channel,
+        thread_ts
+      );
+      messages = thread.messages;
+      threadTruncated = thread.truncated;
+      console.log(
+        `Successfully fetched ${messages.length} thread messages${threadTruncated ? " (truncated)" : ""}`
       );
-      threadText = replies.messages?.map((m) => m.text).join("\n") || evt.text;
-      console.log("Successfully fetched thread messages");
     } catch (error) {
       console.warn(
         "Failed to fetch thread messages, using mention text only:",
         error
       );
-      threadText = evt.text;
+      messages = [];
     }
+    if (messages.length === 0) {
+      messages = [
+        {
+          text: evt.text,
+          ts: evt.ts,
+          user,
+          author: user
+            ? await slack.getUserDisplayName(user)
+            : "unknown",
+          is_bot: false,
+        },
+      ];
+    }
+
+    // The LLM flows read plain text that names the author of each message,
+    // without the bot's own replies
+    const botUserId = await slack.getBotUserId();
+    const userNames = new Map<string, string>();
+    for (const message of messages) {
+      if (message.user) {
+        userNames.set(message.user, message.author);
+      }
+    }
+    const mentioned = unresolvedMentions([
+      ...messages,
+      { text: evt.text, ts: evt.ts, author: "", is_bot: false },
+    ]);
+    for (const id of mentioned) {
+      userNames.set(id, await slack.getUserDisplayName(id));
+    }
+
+    let threadText =
+      formatThreadTranscript(messages, { botUserId, userNames }) || evt.text;
+    const participants = threadParticipants(messages);
 
-    // Analyze message intent using AI
-    const begin = threadText.indexOf(">") + 2;
-    const messageText = threadText.substring(begin, threadText.length).trim();
+    // The command is the mention that triggered this event, not the thread
+    const messageText = extractCommandText(evt.text, { botUserId, userNames });
     console.log("Message text:", messageText);
 
+    // Let the LLM flows know they are only seeing part of the thread
+    if (threadTruncated) {
+      threadText = prependTruncationNote(threadText);
+    }
+
+    const teamId = body.team_id;
+    const configCommand = parseConfigCommand(messageText);
+    if (configCommand) {
+      await this.configureChannel({
+        slack,
+        command: configCommand,
+        teamId,
+        channel,
+        thread_ts,
+        channelName,
+        user,
+      });
+      return;
+    }
+
+    const tagCommand = parseTagCommand(messageText);
+    if (tagCommand) {
+      await this.manageTags({
+        slack,
+        command: tagCommand,
+        teamId,
+        channel,
+        thread_ts,
+        user,
+      });
+      return;
+    }
+
+    const config = await this.channelConfig.resolve(teamId, channel);
+
     const actionType = await analyzeMessageIntent(messageText);
     console.log("Analyzed action type:", actionType);
 
+    if (isLLMFailure(actionType)) {
+      await this.postMessage(slack, channel, thread_ts, `❌ ${actionType.error}`);
+      return;
+    }
+
+    if (
+      actionType !== ActionType.NONE_APPLICABLE &&
+      !config.allowed_actions.includes(actionType)
+    ) {
+      await this.postMessage(
+        slack,
+        channel,
+        thread_ts,
+        `🚫 The ${actionType.replace(/_/g, " ")} action is turned off in #${channelName}.`
+      );
+      return;
+    }
+
+    let services: DecisionServices;
+    try {
+      services = this.decisionServicesFor(config);
+    } catch (error) {
+      console.error(`Decision store for channel ${channel} is not usable:`, error);
+      await this.postMessage(
+        slack,
+        channel,
+        thread_ts,
+        `❌ This channel's decision store (${config.store}) is not set up correctly. Check it with \`config show\`.`
+      );
+      return;
+    }
+
+    // Threads over the prompt budget are condensed part by part first
+    let threadNote: string | undefined;
+    if (THREAD_READING_ACTIONS.includes(actionType)) {
+      const condensed = await condenseThread(threadText);
+      if (isLLMFailure(condensed)) {
+        await this.postMessage(slack, channel, thread_ts, `❌ ${condensed.error}`);
+        return;
+      }
+      if (condensed.parts > 0) {
+        threadText = condensed.text;
+        threadNote = `_ℹ️ This thread was too long to read in one pass, so I condensed it in ${condensed.parts} parts first. Some details may be missing._`;
+      }
+    }
+
     switch (actionType) {
       case ActionType.CREATE:
         await this.createNewDecision({
+          slack,
+          config,
+          services,
           channel,
           thread_ts,
           channelName,
           threadUrl,
           threadText,
+          participants,
+          threadNote,
+          user,
         });
         break;
       case ActionType.UPDATE:
         await this.updateDecision({
+          slack,
+          config,
+          services,
           channel,
           thread_ts,
           channelName,
           threadUrl,
           threadText,
+          participants,
+          threadNote,
+          user,
         });
         break;
       case ActionType.READ:
         await this.fetchRelatedDecisions({
+          slack,
+          services,
           channel,
           thread_ts,
           channelName,
           threadUrl,
           threadText,
+          threadNote,
         });
         break;
       case ActionType.DELETE:
         await this.deleteDecision({
+          slack,
+          services,
           channel,
           thread_ts,
-          channelName,
           threadUrl,
           threadText,
-          eventText: evt.text,
+          user,
         });
         break;
       case ActionType.SUMMARY:
         await this.summarizeThreadResult({
+          slack,
+          config,
           channel,
           thread_ts,
           channelName,
           threadUrl,
           threadText,
+          userNames,
+          threadNote,
+          user,
+        });
+        break;
+      case ActionType.HISTORY:
+        await this.showDecisionHistory({
+          slack,
+          services,
+          channel,
+          thread_ts,
+          threadText,
+        });
+        break;
+      case ActionType.REVERT:
+        await this.revertDecision({
+          slack,
+          services,
+          channel,
+          thread_ts,
+          threadUrl,
+          threadText,
+          user,
+        });
+        break;
+      case ActionType.LIST_TASKS:
+        await this.listOpenTasks({
+          slack,
+          channel,
+          thread_ts,
+          commandText: evt.text,
+          user,
+        });
+        break;
+      case ActionType.COMPLETE_TASK:
+        await this.completeTasks({
+          slack,
+          channel,
+          thread_ts,
+          commandText: evt.text,
+          user,
         });
         break;
       case ActionType.NONE_APPLICABLE:
         // Post a message indicating no action was taken
         const message = `🤖 I analyzed your message but didn't detect any intent to create, update, read, delete, or summarize decisions. If you'd like to log a decision or get a summary, please be more specific about what you'd like me to do.`;
         
-        await this.slackService.apiCall(
+        await slack.apiCall(
           "chat.postMessage",
           {
             channel,
             thread_ts,
             text: message,
           },
-          this.slackService.getBotToken()!
+          slack.getBotToken()!
         );
         break;
       default:
@@ -196,82 +557,191 @@ export class SlackEventsHandler {
   }
 
   /**
-   * Create a new decision in the Notion database
+   * Create a new decision in the decision store
    * @param params - Parameters for creating a new decision
+   * @param params.slack - Slack client for the workspace
+   * @param params.config - Settings of the channel
+   * @param params.services - Decision store of the channel
    * @param params.channel - Slack channel ID
    * @param params.thread_ts - Slack thread timestamp
    * @param params.channelName - Slack channel name
    * @param params.threadUrl - Slack thread URL
    * @param params.threadText - Thread text content
+   * @param params.participants - Display names of the people in the thread
+   * @param params.threadNote - Note to add to the reply, e.g. that the
+   * thread was condensed
+   * @param params.user - Slack user who triggered the action
    */
   private async createNewDecision({
+    slack,
+    config,
+    services,
     channel,
     thread_ts,
     channelName,
     threadUrl,
     threadText,
+    participants,
+    threadNote,
+    user,
   }: {
+    slack: SlackService;
+    config: ChannelConfig;
+    services: DecisionServices;
     channel: string;
     thread_ts: string;
     channelName: string;
     threadUrl: string;
     threadText: string;
+    participants: string[];
+    threadNote?: string;
+    user?: string;
   }): Promise<void> {
-    // Extract decision using LLM
-    const result = await extractDecisionFromThread(threadText);
+    // Extract decision using LLM. In multi mode, a thread that settled several
+    // things lets the requester choose which decisions to log.
+    let result: DecisionExtraction | LLMFailure;
+    const teamId = await slack.getTeamId();
+    const knownTags = await this.knownTags(teamId, services);
+    if (process.env.DECISION_EXTRACTION_MODE === "multi") {
+      const extracted = await extractDecisionsFromThread(threadText, {
+        minConfidence: config.thresholds.extraction,
+        defaultTag: config.default_tag,
+        knownTags,
+      });
+      if (!isLLMFailure(extracted) && extracted.length > 1) {
+        await this.proposeDecisionCandidates({
+          slack,
+          services,
+          channel,
+          thread_ts,
+          channelName,
+          threadUrl,
+          candidates: await Promise.all(
+            extracted.map(async (candidate) => ({
+              ...(await this.withCanonicalTags(teamId, candidate)),
+              participants: this.distinctParticipants(participants),
+            }))
+          ),
+          threadNote,
+          user,
+        });
+        return;
+      }
+      result = isLLMFailure(extracted) ? extracted : extracted[0];
+    } else {
+      result = await extractDecisionFromThread(threadText, {
+        minConfidence: config.thresholds.extraction,
+        defaultTag: config.default_tag,
+        knownTags,
+      });
+    }
+    if (!isLLMFailure(result)) {
+      result = await this.withCanonicalTags(teamId, result);
+    }
 
     if ("error" in result) {
       // Post confirmation message
-      const message = `❌ Failed to log decision to Notion database: *${result.error}*`;
+      const message = `❌ Failed to log decision: *${result.error}*`;
 
-      await this.slackService.apiCall(
+      await slack.apiCall(
         "chat.postMessage",
         {
           channel,
           thread_ts,
           text: message,
         },
-        this.slackService.getBotToken()!
+        slack.getBotToken()!
       );
       return;
     }
 
-    const { title, summary, tag } = result as DecisionExtraction;
+    const { title, summary, tag, ...extractedRecord } =
+      result as DecisionExtraction;
+    const record: DecisionRecordFields = {
+      ...extractedRecord,
+      participants: this.distinctParticipants(participants),
+    };
 
     // Get all existing decisions from the database
-    console.log("Retrieving existing decisions from Notion database...");
-    const existingDecisions = await this.notionService.getAllDecisions();
+    console.log("Retrieving existing decisions from the decision store...");
+    const existingDecisions = await this.decisionsOf(teamId, services);
 
     // Compare with existing decisions to see if this is a similar decision
     console.log("Comparing new decision with existing decisions...");
+    const candidates = await services.decisionIndex.findCandidates(
+      `${title}\n${summary}\n${tag}`,
+      existingDecisions
+    );
     const comparison = await compareDecisionWithExisting(
       result as DecisionExtraction,
-      existingDecisions
+      candidates
     );
 
-    let notionSuccess = false;
+    let storeSuccess = false;
     let action = "";
+    let replaced: StoredDecision | undefined;
 
-    if (comparison.similar && comparison.existing_decision_id) {
+    // A match that was already superseded stands for its newest version
+    const matched = existingDecisions.find(
+      (decision) => decision.id === comparison.existing_decision_id
+    );
+    const previous = matched
+      ? currentVersionOf(matched, existingDecisions)
+      : undefined;
+
+    if (comparison.similar && previous && this.supersedesChanges()) {
+      // Record the new outcome separately and retire the old decision
+      console.log(
+        `Similar decision found (similarity: ${comparison.similarity_score}%). Superseding existing decision.`
+      );
+      action = "added";
+
+      const supersedeResult = await this.supersedeDecision({
+        services,
+        previous,
+        entry: {
+          title,
+          summary,
+          tag,
+          ...record,
+          slack_thread: threadUrl,
+          slack_channel: channelName,
+          team_id: teamId,
+          date_timestamp: new Date().toISOString(),
+        },
+        user,
+        channel,
+        thread_ts,
+        threadUrl,
+      });
+
+      storeSuccess = supersedeResult.success;
+      replaced = previous;
+    } else if (comparison.similar && comparison.existing_decision_id) {
       // Update existing decision
       console.log(
         `Similar decision found (similarity: ${comparison.similarity_score}%). Updating existing decision.`
       );
       action = "updated";
+      const targetId = previous?.id || comparison.existing_decision_id;
 
-      const updateResult = await this.notionService.updateDecision(
-        comparison.existing_decision_id,
+      const updateResult = await changeDecision(
+        services,
+        targetId,
         {
           title,
           summary,
           tag,
+          ...record,
           slack_thread: threadUrl,
           slack_channel: channelName,
           date_timestamp: new Date().toISOString(),
-        }
+        },
+        { user, channel, thread_ts, thread_url: threadUrl, team_id: teamId },
+        previous
       );
 
-      notionSuccess = updateResult.success;
+      storeSuccess = updateResult.success;
     } else {
       // Add new decision
       console.log(
@@ -279,108 +749,156 @@ export class SlackEventsHandler {
       );
       action = "added";
 
-      const addResult = await this.notionService.addDecision({
-        title,
-        summary,
-        tag,
-        slack_thread: threadUrl,
-        slack_channel: channelName,
-        date_timestamp: new Date().toISOString(),
-      });
+      const addResult = await createDecision(
+        services,
+        {
+          title,
+          summary,
+          tag,
+          ...record,
+          slack_thread: threadUrl,
+          slack_channel: channelName,
+          team_id: teamId,
+          date_timestamp: new Date().toISOString(),
+        },
+        { user, channel, thread_ts, thread_url: threadUrl, team_id: teamId }
+      );
 
-      notionSuccess = addResult.success;
+      storeSuccess = addResult.success;
     }
 
+    const newTags = storeSuccess
+      ? await this.tagService.register(teamId, tagsOf({ tag, tags: record.tags }), user)
+      : [];
+
     // Post confirmation message
-    const databaseUrl = this.notionService.getDatabaseUrl();
-    const message = notionSuccess
+    const databaseUrl = services.decisionRepository.getDatabaseUrl();
+    const details = formatDecisionRecord(record);
+    const message = storeSuccess
       ? `✅ Decision ${action}: *${title}*${comparison.similar
         ? ` (Similarity: ${comparison.similarity_score}%)`
         : ""
-      }\n<${databaseUrl}|View here>`
+      }${replaced ? `\n_Supersedes: ${replaced.title}_` : ""}${details ? `\n${details}` : ""}${this.newTagsNote(newTags)}${databaseUrl ? `\n<${databaseUrl}|View here>` : ""}`
       : `❌ Failed to ${action} decision: *${title}*`;
+    const reply = threadNote ? `${message}\n${threadNote}` : message;
 
-    await this.slackService.apiCall(
+    await slack.apiCall(
       "chat.postMessage",
       {
         channel,
         thread_ts,
-        text: message,
+        text: reply,
       },
-      this.slackService.getBotToken()!
+      slack.getBotToken()!
     );
   }
 
   /**
-   * Update an existing decision in the Notion database
+   * Update an existing decision in the decision store
    * @param params - Parameters for updating a decision
+   * @param params.slack - Slack client for the workspace
+   * @param params.config - Settings of the channel
+   * @param params.services - Decision store of the channel
    * @param params.channel - Slack channel ID
    * @param params.thread_ts - Slack thread timestamp
    * @param params.channelName - Slack channel name
    * @param params.threadUrl - Slack thread URL
    * @param params.threadText - Thread text content
+   * @param params.participants - Display names of the people in the thread
+   * @param params.threadNote - Note to add to the reply, e.g. that the
+   * thread was condensed
+   * @param params.user - Slack user who triggered the action
    */
   private async updateDecision({
+    slack,
+    config,
+    services,
     channel,
     thread_ts,
     channelName,
     threadUrl,
     threadText,
+    participants,
+    threadNote,
+    user,
   }: {
+    slack: SlackService;
+    config: ChannelConfig;
+    services: DecisionServices;
     channel: string;
     thread_ts: string;
     channelName: string;
     threadUrl: string;
     threadText: string;
+    participants: string[];
+    threadNote?: string;
+    user?: string;
   }): Promise<void> {
     try {
       // Get all existing decisions from the database
-      console.log("Retrieving all decisions from Notion database...");
-      const existingDecisions = await this.notionService.getAllDecisions();
+      console.log("Retrieving all decisions from the decision store...");
+      const existingDecisions = await this.decisionsOf(
+        await slack.getTeamId(),
+        services
+      );
 
       if (existingDecisions.length === 0) {
         const message = `❌ No decisions found in the database to update. Please create a decision first.`;
         
-        await this.slackService.apiCall(
+        await slack.apiCall(
           "chat.postMessage",
           {
             channel,
             thread_ts,
             text: message,
           },
-          this.slackService.getBotToken()!
+          slack.getBotToken()!
         );
         return;
       }
 
       // Find related decisions using AI (reuse the read flow logic)
       console.log("Finding related decisions using AI...");
-      const relatedDecisionsResult = await findRelatedDecisions(
+      const candidates = await services.decisionIndex.findCandidates(
         threadText,
         existingDecisions
       );
+      const relatedDecisionsResult = await findRelatedDecisions(
+        threadText,
+        candidates
+      );
+
+      if (isLLMFailure(relatedDecisionsResult)) {
+        await this.postMessage(
+          slack,
+          channel,
+          thread_ts,
+          `❌ ${relatedDecisionsResult.error}`
+        );
+        return;
+      }
 
       if (relatedDecisionsResult.related_decisions.length === 0) {
         const message = `❌ No related decisions found to update. The thread doesn't seem to relate to any existing decisions in the database.`;
         
-        await this.slackService.apiCall(
+        await slack.apiCall(
           "chat.postMessage",
           {
             channel,
             thread_ts,
             text: message,
           },
-          this.slackService.getBotToken()!
+          slack.getBotToken()!
         );
         return;
       }
 
       // Convert the related decisions to the format expected by analyzeDecisionUpdate
-      // The decision.id from findRelatedDecisions is a 1-based index, so we need to map it to the actual Notion page ID
+      // The decision.id from findRelatedDecisions is a 1-based index, so we need to map it to the actual stored decision ID
       const relatedDecisionsForUpdate = relatedDecisionsResult.related_decisions.map(decision => {
-        // decision.id is 1-based index, so we need to get the actual decision from existingDecisions
+        // decision.id is 1-based index, so we need to get the actual decision from the candidates
         const decisionIndex = decision.id - 1; // Convert to 0-based index
-        const existingDecision = existingDecisions[decisionIndex];
+        const existingDecision = candidates[decisionIndex];
         
         if (!existingDecision) {
           console.warn(`Decision at index ${decisionIndex} not found in existing decisions`);
@@ -388,7 +906,7 @@ export class SlackEventsHandler {
         }
         
         return {
-          id: existingDecision.id, // Use the actual Notion page ID
+          id: existingDecision.id, // Use the actual stored decision ID
           title: decision.title,
           summary: decision.summary,
           tag: existingDecision.tag
@@ -396,39 +914,52 @@ export class SlackEventsHandler {
       }).filter(decision => decision !== null); // Remove any null entries
 
       if (relatedDecisionsForUpdate.length === 0) {
-        const message = `❌ Failed to map related decisions to valid Notion page IDs.`;
+        const message = `❌ Failed to map related decisions to valid decision IDs.`;
         
-        await this.slackService.apiCall(
+        await slack.apiCall(
           "chat.postMessage",
           {
             channel,
             thread_ts,
             text: message,
           },
-          this.slackService.getBotToken()!
+          slack.getBotToken()!
         );
         return;
       }
 
       // Analyze which decision should be updated and what changes to make
       console.log("Analyzing which decision to update...");
-      const updateAnalysis = await analyzeDecisionUpdate(threadText, relatedDecisionsForUpdate);
+      const updateAnalysis = await analyzeDecisionUpdate(
+        threadText,
+        relatedDecisionsForUpdate,
+        config.thresholds.update
+      );
 
       if ("error" in updateAnalysis) {
         const message = `❌ Failed to analyze decision update: *${updateAnalysis.error}*`;
         
-        await this.slackService.apiCall(
+        await slack.apiCall(
           "chat.postMessage",
           {
             channel,
             thread_ts,
             text: message,
           },
-          this.slackService.getBotToken()!
+          slack.getBotToken()!
         );
         return;
       }
 
+      // Changes apply to the newest version of the matched decision
+      const matched = existingDecisions.find(
+        (decision) => decision.id === updateAnalysis.decision_id
+      );
+      const previous = matched
+        ? currentVersionOf(matched, existingDecisions)
+        : undefined;
+      const targetId = previous?.id || updateAnalysis.decision_id;
+
       // Prepare the update data
       const updateData: any = {
         slack_thread: threadUrl,
@@ -444,247 +975,224 @@ export class SlackEventsHandler {
         updateData.summary = updateAnalysis.updated_summary;
       }
       if (updateAnalysis.updated_tag) {
-        updateData.tag = updateAnalysis.updated_tag;
+        // The new main tag goes first; the decision keeps its other tags
+        const tags = await this.tagService.canonicalize(await slack.getTeamId(), [
+          updateAnalysis.updated_tag,
+          ...(previous ? tagsOf(previous) : []),
+        ]);
+        updateData.tag = tags[0];
+        updateData.tags = tags;
+      }
+      // People from the updating thread join the earlier participants
+      const allParticipants = this.distinctParticipants([
+        ...(previous?.participants || []),
+        ...participants,
+      ]);
+      if (allParticipants) {
+        updateData.participants = allParticipants;
+      }
+
+      if (previous && this.supersedesChanges()) {
+        console.log(`Superseding decision ${previous.id}...`);
+        const supersedeResult = await this.supersedeDecision({
+          services,
+          previous,
+          entry: {
+            title: previous.title,
+            summary: previous.summary,
+            tag: previous.tag,
+            ...this.pickRecordFields(previous),
+            ...updateData,
+            team_id: await slack.getTeamId(),
+          },
+          user,
+          channel,
+          thread_ts,
+          threadUrl,
+        });
+
+        if (supersedeResult.success) {
+          await this.tagService.register(
+            await slack.getTeamId(),
+            updateData.tags || [],
+            user
+          );
+        }
+
+        const databaseUrl = services.decisionRepository.getDatabaseUrl();
+        await this.postMessage(
+          slack,
+          channel,
+          thread_ts,
+          supersedeResult.success
+            ? `✅ Recorded a new decision superseding *${previous.title}*.${databaseUrl ? `\n\n<${databaseUrl}|View in Notion>` : ""}${threadNote ? `\n${threadNote}` : ""}`
+            : `❌ Failed to update decision: *${supersedeResult.error}*`
+        );
+        return;
       }
 
-      // Update the decision in Notion
-      console.log(`Updating decision ${updateAnalysis.decision_id}...`);
-      const updateResult = await this.notionService.updateDecision(
-        updateAnalysis.decision_id,
-        updateData
+      // Update the decision in the store
+      console.log(`Updating decision ${targetId}...`);
+      const updateResult = await changeDecision(
+        services,
+        targetId,
+        updateData,
+        {
+          user,
+          channel,
+          thread_ts,
+          thread_url: threadUrl,
+          team_id: await slack.getTeamId(),
+        },
+        previous
       );
 
+      if (updateResult.success) {
+        await this.tagService.register(
+          await slack.getTeamId(),
+          updateData.tags || [],
+          user
+        );
+      }
+
       // Post confirmation message
-      const databaseUrl = this.notionService.getDatabaseUrl();
+      const databaseUrl = services.decisionRepository.getDatabaseUrl();
       const message = updateResult.success
-        ? `✅ Decision updated successfully!\n\n<${databaseUrl}|View in Notion>`
+        ? `✅ Decision updated successfully!${databaseUrl ? `\n\n<${databaseUrl}|View in Notion>` : ""}${threadNote ? `\n${threadNote}` : ""}`
         : `❌ Failed to update decision: *${updateResult.error}*`;
 
-      await this.slackService.apiCall(
+      await slack.apiCall(
         "chat.postMessage",
         {
           channel,
           thread_ts,
           text: message,
         },
-        this.slackService.getBotToken()!
+        slack.getBotToken()!
       );
 
-      console.log("Successfully updated decision in Notion database");
+      console.log("Successfully updated decision in the decision store");
     } catch (error) {
       console.error("Error updating decision:", error);
       
       // Post error message
       const errorMessage = `❌ Failed to update decision: ${error instanceof Error ? error.message : "Unknown error"}`;
       
-      await this.slackService.apiCall(
+      await slack.apiCall(
         "chat.postMessage",
         {
           channel,
           thread_ts,
           text: errorMessage,
         },
-        this.slackService.getBotToken()!
+        slack.getBotToken()!
       );
     }
   }
 
   /**
-   * Delete a decision from the Notion database with confirmation
+   * Ask for confirmation before deleting a decision from the decision store.
+   * The deletion itself happens when the requester clicks Confirm, see
+   * handleDeletionAction.
    * @param params - Parameters for deleting a decision
+   * @param params.slack - Slack client for the workspace
+   * @param params.services - Decision store of the channel
    * @param params.channel - Slack channel ID
    * @param params.thread_ts - Slack thread timestamp
-   * @param params.channelName - Slack channel name
    * @param params.threadUrl - Slack thread URL
    * @param params.threadText - Thread text content
-   * @param params.eventText - Current event text content
+   * @param params.user - Slack user who triggered the action
    */
   private async deleteDecision({
+    slack,
+    services,
     channel,
     thread_ts,
-    channelName,
     threadUrl,
     threadText,
-    eventText,
+    user,
   }: {
+    slack: SlackService;
+    services: DecisionServices;
     channel: string;
     thread_ts: string;
-    channelName: string;
     threadUrl: string;
     threadText: string;
-    eventText: string;
+    user?: string;
   }): Promise<void> {
     try {
-      // Check if there's a pending deletion for this thread
-      const pendingDeletionKey = `${channel}-${thread_ts}`;
-      const pendingDeletion = this.pendingDeletions.get(pendingDeletionKey);
+      // Only one deletion can be pending per thread
+      const pendingDeletionKey = PendingActionService.keyFor(
+        DELETE_DECISION_ACTION,
+        channel,
+        thread_ts
+      );
+      const pendingDeletion = await this.pendingActions.get<PendingDeletion>(
+        pendingDeletionKey
+      );
 
       if (pendingDeletion) {
-        // Check if the message is a confirmation
-        // Extract just the latest message text (remove the @bot mention)
-        const messageText = eventText.substring(eventText.indexOf(">") + 2).trim().toLowerCase();
-        console.log("Confirmation message text:", messageText);
-        
-        if (messageText.includes("yes") || messageText.includes("confirm") || messageText.includes("delete")) {
-          // User confirmed deletion
-          console.log(`Deleting decision ${pendingDeletion.decision_id}...`);
-          const deleteResult = await this.notionService.deleteDecision(pendingDeletion.decision_id);
-
-          // Remove from pending deletions
-          this.pendingDeletions.delete(pendingDeletionKey);
-
-          // Post confirmation message
-          const message = deleteResult.success
-            ? `✅ Decision deleted successfully!\n\n*Deleted Decision:* ${pendingDeletion.title}\n*Summary:* ${pendingDeletion.summary}`
-            : `❌ Failed to delete decision: *${deleteResult.error}*`;
-
-          await this.slackService.apiCall(
-            "chat.postMessage",
-            {
-              channel,
-              thread_ts,
-              text: message,
-            },
-            this.slackService.getBotToken()!
-          );
-
-          console.log("Successfully deleted decision from Notion database");
-          return;
-        } else if (messageText.includes("no") || messageText.includes("cancel") || messageText.includes("abort")) {
-          // User cancelled deletion
-          console.log("User cancelled deletion");
-          this.pendingDeletions.delete(pendingDeletionKey);
-          
-          const message = `❌ Decision deletion cancelled. The decision "${pendingDeletion.title}" was not deleted.`;
-          
-          await this.slackService.apiCall(
-            "chat.postMessage",
-            {
-              channel,
-              thread_ts,
-              text: message,
-            },
-            this.slackService.getBotToken()!
-          );
-          return;
-        } else {
-          // User sent another message, remind them about the pending deletion
-          const message = `⚠️ You have a pending deletion for: *${pendingDeletion.title}*\n\nPlease reply with "yes" to confirm deletion or "no" to cancel.`;
-          
-          await this.slackService.apiCall(
-            "chat.postMessage",
-            {
-              channel,
-              thread_ts,
-              text: message,
-            },
-            this.slackService.getBotToken()!
-          );
-          return;
-        }
-      }
+        const message = `⚠️ There is already a pending deletion for: *${pendingDeletion.data.title}*\n\nUse the Confirm or Cancel buttons on the confirmation message above.`;
 
-      // No pending deletion, find the decision to delete
-      console.log("Retrieving all decisions from Notion database...");
-      const existingDecisions = await this.notionService.getAllDecisions();
-
-      if (existingDecisions.length === 0) {
-        const message = `❌ No decisions found in the database to delete.`;
-        
-        await this.slackService.apiCall(
+        await slack.apiCall(
           "chat.postMessage",
           {
             channel,
             thread_ts,
             text: message,
           },
-          this.slackService.getBotToken()!
+          slack.getBotToken()!
         );
         return;
       }
 
-      // Find related decisions using AI (reuse the read flow logic)
-      console.log("Finding related decisions to delete using AI...");
-      const relatedDecisionsResult = await findRelatedDecisions(
+      const existingDecision = await this.resolveSingleDecision({
+        slack,
+        services,
+        channel,
+        thread_ts,
         threadText,
-        existingDecisions
-      );
-
-      if (relatedDecisionsResult.related_decisions.length === 0) {
-        const message = `❌ No related decisions found to delete. The thread doesn't seem to relate to any existing decisions in the database.`;
-        
-        await this.slackService.apiCall(
-          "chat.postMessage",
-          {
-            channel,
-            thread_ts,
-            text: message,
-          },
-          this.slackService.getBotToken()!
-        );
-        return;
-      }
-
-      if (relatedDecisionsResult.related_decisions.length > 1) {
-        const message = `❌ Multiple related decisions found. Please be more specific about which decision you want to delete.\n\nRelated decisions:\n${relatedDecisionsResult.related_decisions.map(d => `• ${d.title}`).join('\n')}`;
-        
-        await this.slackService.apiCall(
-          "chat.postMessage",
-          {
-            channel,
-            thread_ts,
-            text: message,
-          },
-          this.slackService.getBotToken()!
-        );
+        verb: "delete",
+      });
+      if (!existingDecision) {
         return;
       }
 
-      // Get the decision to delete
-      const decisionToDelete = relatedDecisionsResult.related_decisions[0];
-      const decisionIndex = decisionToDelete.id - 1; // Convert to 0-based index
-      const existingDecision = existingDecisions[decisionIndex];
+      await this.pendingActions.create<PendingDeletion>({
+        key: pendingDeletionKey,
+        type: DELETE_DECISION_ACTION,
+        channel,
+        thread_ts,
+        thread_url: threadUrl,
+        requested_by: user,
+        team_id: await slack.getTeamId(),
+        data: {
+          decision_id: existingDecision.id,
+          title: existingDecision.title,
+          summary: existingDecision.summary,
+        },
+      });
 
-      if (!existingDecision) {
-        const message = `❌ Decision not found in database.`;
-        
-        await this.slackService.apiCall(
-          "chat.postMessage",
-          {
-            channel,
-            thread_ts,
-            text: message,
-          },
-          this.slackService.getBotToken()!
-        );
-        return;
-      }
-
-      // Store pending deletion
-      const pendingDeletionData: PendingDeletion = {
-        decision_id: existingDecision.id,
-        title: existingDecision.title,
-        summary: existingDecision.summary,
-        thread_ts,
-        channel,
-        timestamp: Date.now(),
-      };
-
-      this.pendingDeletions.set(pendingDeletionKey, pendingDeletionData);
-
-      // Ask for confirmation
-      const message = `⚠️ Are you sure you want to delete this decision?\n\n*Decision:* ${existingDecision.title}\n*Summary:* ${existingDecision.summary}\n*Tag:* ${existingDecision.tag}\n\nReply with "yes" to confirm deletion or "no" to cancel.`;
-      
-      await this.slackService.apiCall(
+      // Ask for confirmation with buttons; the button value carries the pending key
+      const response = await slack.apiCall(
         "chat.postMessage",
         {
           channel,
           thread_ts,
-          text: message,
+          text: `⚠️ Are you sure you want to delete this decision? *${existingDecision.title}*`,
+          blocks: buildDeleteConfirmationBlocks(
+            pendingDeletionKey,
+            existingDecision,
+            user
+          ),
         },
-        this.slackService.getBotToken()!
+        slack.getBotToken()!
       );
 
+      await this.pendingActions.update(pendingDeletionKey, {
+        message_ts: response.ts,
+      });
+
       console.log(`Pending deletion created for decision: ${existingDecision.title}`);
     } catch (error) {
       console.error("Error deleting decision:", error);
@@ -692,73 +1200,476 @@ export class SlackEventsHandler {
       // Post error message
       const errorMessage = `❌ Failed to delete decision: ${error instanceof Error ? error.message : "Unknown error"}`;
       
-      await this.slackService.apiCall(
+      await slack.apiCall(
         "chat.postMessage",
         {
           channel,
           thread_ts,
           text: errorMessage,
         },
-        this.slackService.getBotToken()!
+        slack.getBotToken()!
+      );
+    }
+  }
+
+  /**
+   * Apply the Confirm/Cancel choice made on a delete confirmation message
+   * @param choice - Which button was clicked
+   * @param pendingDeletionKey - Key of the pending deletion (the button value)
+   * @param payload - The Slack interaction payload
+   */
+  async handleDeletionAction(
+    choice: "confirm" | "cancel",
+    pendingDeletionKey: string,
+    payload: SlackInteractionPayload
+  ): Promise<void> {
+    const slack = await this.installations.clientFor(payload.team?.id);
+    if (!slack) {
+      return;
+    }
+    const channel = payload.channel?.id || "";
+    const messageTs = payload.container?.message_ts || payload.message?.ts;
+    const clickedBy = payload.user.id;
+    const pendingDeletion = await this.pendingActions.get<PendingDeletion>(
+      pendingDeletionKey
+    );
+
+    if (!pendingDeletion) {
+      if (messageTs) {
+        await this.updateMessage(
+          slack,
+          channel,
+          messageTs,
+          "⌛ This delete request is no longer pending."
+        );
+      }
+      return;
+    }
+
+    // Only the user who asked for the deletion may answer it
+    if (pendingDeletion.requested_by && pendingDeletion.requested_by !== clickedBy) {
+      await slack.apiCall(
+        "chat.postEphemeral",
+        {
+          channel: pendingDeletion.channel,
+          thread_ts: pendingDeletion.thread_ts,
+          user: clickedBy,
+          text: `Only <@${pendingDeletion.requested_by}> can confirm or cancel this deletion.`,
+        },
+        slack.getBotToken()!
+      );
+      return;
+    }
+
+    // Taking the action removes it, so a double click cannot apply it twice
+    const taken = await this.pendingActions.take<PendingDeletion>(
+      pendingDeletionKey
+    );
+    if (!taken) {
+      return;
+    }
+    const { decision_id, title, summary } = taken.data;
+    const targetTs = taken.message_ts || messageTs;
+
+    if (choice === "cancel") {
+      console.log("User cancelled deletion");
+      if (targetTs) {
+        await this.updateMessage(
+          slack,
+          taken.channel,
+          targetTs,
+          `❌ Deletion cancelled by <@${clickedBy}>. The decision "${title}" was not deleted.`
+        );
+      }
+      return;
+    }
+
+    // The decision store of the channel the request came from
+    const services = this.decisionServicesFor(
+      await this.channelConfig.resolve(taken.team_id, taken.channel)
+    );
+    console.log(`Deleting decision ${decision_id}...`);
+    const deleteResult = await archiveDecision(
+      services,
+      { id: decision_id, title, summary },
+      {
+        user: clickedBy,
+        channel: taken.channel,
+        thread_ts: taken.thread_ts,
+        thread_url: taken.thread_url,
+        team_id: taken.team_id,
+      }
+    );
+
+    if (deleteResult.success) {
+      console.log("Successfully deleted decision from the decision store");
+    }
+
+    const message = deleteResult.success
+      ? `✅ Decision deleted by <@${clickedBy}>\n\n*Deleted Decision:* ${title}\n*Summary:* ${summary}`
+      : `❌ Failed to delete decision: *${deleteResult.error}*`;
+
+    if (targetTs) {
+      await this.updateMessage(slack, taken.channel, targetTs, message);
+    } else {
+      await this.postMessage(slack, taken.channel, taken.thread_ts, message);
+    }
+  }
+
+  /**
+   * Check each extracted decision for duplicates and ask the requester which
+   * ones to log
+   * @param params - Parameters for proposing decision candidates
+   * @param params.slack - Slack client for the workspace
+   * @param params.services - Decision store of the channel
+   * @param params.channel - Slack channel ID
+   * @param params.thread_ts - Slack thread timestamp
+   * @param params.channelName - Slack channel name
+   * @param params.threadUrl - Slack thread URL
+   * @param params.candidates - Decisions extracted from the thread
+   * @param params.threadNote - Note to add to the message
+   * @param params.user - Slack user who triggered the action
+   */
+  private async proposeDecisionCandidates({
+    slack,
+    services,
+    channel,
+    thread_ts,
+    channelName,
+    threadUrl,
+    candidates,
+    threadNote,
+    user,
+  }: {
+    slack: SlackService;
+    services: DecisionServices;
+    channel: string;
+    thread_ts: string;
+    channelName: string;
+    threadUrl: string;
+    candidates: DecisionCandidate[];
+    threadNote?: string;
+    user?: string;
+  }): Promise<void> {
+    console.log(`Extracted ${candidates.length} candidate decisions`);
+    const existingDecisions = await this.decisionsOf(
+      await slack.getTeamId(),
+      services
+    );
+
+    for (const candidate of candidates) {
+      const nearest = await services.decisionIndex.findCandidates(
+        `${candidate.title}\n${candidate.summary}\n${candidate.tag}`,
+        existingDecisions
+      );
+      const comparison = await compareDecisionWithExisting(candidate, nearest);
+      const duplicate = existingDecisions.find(
+        (decision) => decision.id === comparison.existing_decision_id
+      );
+      if (comparison.similar && duplicate) {
+        candidate.duplicate_of = {
+          id: duplicate.id,
+          title: duplicate.title,
+          similarity_score: comparison.similarity_score,
+        };
+      }
+    }
+
+    const key = PendingActionService.keyFor(
+      LOG_DECISIONS_ACTION,
+      channel,
+      thread_ts
+    );
+    await this.pendingActions.create<PendingDecisionCandidates>({
+      key,
+      type: LOG_DECISIONS_ACTION,
+      channel,
+      thread_ts,
+      thread_url: threadUrl,
+      requested_by: user,
+      team_id: await slack.getTeamId(),
+      data: { candidates, channel_name: channelName },
+    });
+
+    const response = await slack.apiCall(
+      "chat.postMessage",
+      {
+        channel,
+        thread_ts,
+        text: `🗂️ I found ${candidates.length} decisions in this thread. Choose which ones to log.`,
+        blocks: buildDecisionCandidatesBlocks(key, candidates, threadNote),
+      },
+      slack.getBotToken()!
+    );
+
+    await this.pendingActions.update(key, { message_ts: response.ts });
+  }
+
+  /**
+   * Log the decisions the requester selected, each as its own record
+   * linked to the thread, or drop them all on cancel
+   * @param choice - Which button was clicked
+   * @param key - Key of the pending action (the button value)
+   * @param payload - The Slack interaction payload
+   */
+  async handleLogDecisionsAction(
+    choice: "confirm" | "cancel",
+    key: string,
+    payload: SlackInteractionPayload
+  ): Promise<void> {
+    const slack = await this.installations.clientFor(payload.team?.id);
+    if (!slack) {
+      return;
+    }
+    const channel = payload.channel?.id || "";
+    const messageTs = payload.container?.message_ts || payload.message?.ts;
+    const clickedBy = payload.user.id;
+    const pending = await this.pendingActions.get<PendingDecisionCandidates>(key);
+
+    if (!pending) {
+      if (messageTs) {
+        await this.updateMessage(
+          slack,
+          channel,
+          messageTs,
+          "⌛ This request is no longer pending."
+        );
+      }
+      return;
+    }
+
+    if (pending.requested_by && pending.requested_by !== clickedBy) {
+      await slack.apiCall(
+        "chat.postEphemeral",
+        {
+          channel: pending.channel,
+          thread_ts: pending.thread_ts,
+          user: clickedBy,
+          text: `Only <@${pending.requested_by}> can choose which decisions to log.`,
+        },
+        slack.getBotToken()!
+      );
+      return;
+    }
+
+    const taken = await this.pendingActions.take<PendingDecisionCandidates>(key);
+    if (!taken) {
+      return;
+    }
+    const targetTs = taken.message_ts || messageTs;
+    const { candidates, channel_name } = taken.data;
+
+    if (choice === "cancel") {
+      if (targetTs) {
+        await this.updateMessage(
+          slack,
+          taken.channel,
+          targetTs,
+          `❌ Cancelled by <@${clickedBy}>. No decisions were logged.`
+        );
+      }
+      return;
+    }
+
+    // The decision store of the channel the request came from
+    const services = this.decisionServicesFor(
+      await this.channelConfig.resolve(taken.team_id, taken.channel)
+    );
+
+    // The checkbox state comes with the button click
+    const selected = new Set<number>();
+    for (const block of Object.values(payload.state?.values || {})) {
+      const checkboxes = block[LOG_DECISIONS_SELECT_ACTION];
+      checkboxes?.selected_options?.forEach((option) =>
+        selected.add(Number(option.value))
+      );
+    }
+
+    const lines: string[] = [];
+    for (const [index, candidate] of candidates.entries()) {
+      if (!selected.has(index)) {
+        continue;
+      }
+      const { title, summary, tag } = candidate;
+      const record = this.pickRecordFields(candidate);
+      const addResult = await createDecision(
+        services,
+        {
+          title,
+          summary,
+          tag,
+          ...record,
+          slack_thread: taken.thread_url || "",
+          slack_channel: channel_name,
+          team_id: taken.team_id,
+          date_timestamp: new Date().toISOString(),
+        },
+        {
+          user: clickedBy,
+          channel: taken.channel,
+          thread_ts: taken.thread_ts,
+          thread_url: taken.thread_url,
+          team_id: taken.team_id,
+        }
       );
+
+      if (addResult.success) {
+        await this.tagService.register(taken.team_id, tagsOf(candidate), clickedBy);
+        lines.push(`✅ ${title}`);
+      } else {
+        lines.push(`❌ ${title}: ${addResult.error}`);
+      }
+    }
+
+    const databaseUrl = services.decisionRepository.getDatabaseUrl();
+    const message =
+      lines.length > 0
+        ? `🗂️ <@${clickedBy}> logged ${lines.filter((line) => line.startsWith("✅")).length} of ${candidates.length} decisions:\n${lines.join("\n")}${databaseUrl ? `\n<${databaseUrl}|View here>` : ""}`
+        : `No decisions were selected, so nothing was logged.`;
+
+    if (targetTs) {
+      await this.updateMessage(slack, taken.channel, targetTs, message);
+    } else {
+      await this.postMessage(slack, taken.channel, taken.thread_ts, message);
+    }
+  }
+
+  /**
+   * Tell a thread that its pending action expired without an answer
+   * @param action - The expired pending action
+   */
+  private async notifyPendingActionExpired(
+    action: PendingAction
+  ): Promise<void> {
+    const what =
+      action.type === DELETE_DECISION_ACTION
+        ? `delete request for "${action.data.title}"`
+        : action.type === LOG_DECISIONS_ACTION
+          ? "request to log decisions from this thread"
+          : "request";
+    const message = `⌛ The ${what} expired without confirmation, so nothing was changed. Ask again if you still want to do this.`;
+    const slack = await this.installations.clientFor(action.team_id);
+    if (!slack) {
+      return;
+    }
+
+    if (action.message_ts) {
+      await this.updateMessage(slack, action.channel, action.message_ts, message);
     }
+    await this.postMessage(slack, action.channel, action.thread_ts, message);
   }
 
   /**
-   * Fetch related decisions from the Notion database
+   * Fetch related decisions from the decision store
    * @param params - Parameters for fetching related decisions
+   * @param params.slack - Slack client for the workspace
+   * @param params.services - Decision store of the channel
    * @param params.channel - Slack channel ID
    * @param params.thread_ts - Slack thread timestamp
    * @param params.channelName - Slack channel name
    * @param params.threadUrl - Slack thread URL
    * @param params.threadText - Thread text content
+   * @param params.threadNote - Note to add to the reply
    */
   private async fetchRelatedDecisions({
+    slack,
+    services,
     channel,
     thread_ts,
     channelName,
     threadUrl,
     threadText,
+    threadNote,
   }: {
+    slack: SlackService;
+    services: DecisionServices;
     channel: string;
     thread_ts: string;
     channelName: string;
     threadUrl: string;
     threadText: string;
+    threadNote?: string;
   }): Promise<void> {
     try {
       // Get all existing decisions from the database
-      console.log("Retrieving all decisions from Notion database...");
-      const existingDecisions = await this.notionService.getAllDecisions();
+      console.log("Retrieving all decisions from the decision store...");
+      const existingDecisions = await this.decisionsOf(
+        await slack.getTeamId(),
+        services
+      );
 
       // Find related decisions using AI
       console.log("Finding related decisions using AI...");
-      const relatedDecisionsResult = await findRelatedDecisions(
+      const candidates = await services.decisionIndex.findCandidates(
         threadText,
         existingDecisions
       );
+      const relatedDecisionsResult = await findRelatedDecisions(
+        threadText,
+        candidates
+      );
+
+      if (isLLMFailure(relatedDecisionsResult)) {
+        await this.postMessage(
+          slack,
+          channel,
+          thread_ts,
+          `❌ ${relatedDecisionsResult.error}`
+        );
+        return;
+      }
 
       // Format the message using Slack's native formatting
       let message = "";
 
       if (relatedDecisionsResult.related_decisions.length > 0) {
         message += `📋 *Related Decisions:*\n`;
+
+        // Show the decision currently in force for each match, once, with
+        // the versions it replaced underneath
+        const shown = new Set<string>();
+        let position = 0;
         relatedDecisionsResult.related_decisions.forEach((decision) => {
-          message += `\n*${decision.id}. ${decision.title}*\n${decision.summary}\n`;
+          const matched = candidates[decision.id - 1];
+          const current = matched
+            ? currentVersionOf(matched, existingDecisions)
+            : undefined;
+          if (current && shown.has(current.id)) {
+            return;
+          }
+          if (current) {
+            shown.add(current.id);
+          }
+          position++;
+
+          const isCurrent = !current || current.id === matched.id;
+          const title = isCurrent ? decision.title : current.title;
+          const summary = isCurrent ? decision.summary : current.summary;
+          message += `\n*${position}. ${title}*${current?.status ? ` _(${current.status})_` : ""}\n${summary}\n`;
+
+          const earlier = current
+            ? supersededVersionsOf(current, existingDecisions)
+            : [];
+          if (earlier.length > 0) {
+            message += `_Supersedes: ${earlier.map((version) => version.title).join(" ← ")}_\n`;
+          }
         });
       }
 
       message += `\n<${threadUrl}|source>`;
+      if (threadNote) {
+        message += `\n${threadNote}`;
+      }
 
       // Post the message
-      await this.slackService.apiCall(
+      await slack.apiCall(
         "chat.postMessage",
         {
           channel,
           thread_ts,
           text: message,
         },
-        this.slackService.getBotToken()!
+        slack.getBotToken()!
       );
 
       console.log("Successfully posted related decisions to Slack");
@@ -768,14 +1679,14 @@ export class SlackEventsHandler {
       // Post error message
       const errorMessage = `❌ Failed to fetch related decisions: ${error instanceof Error ? error.message : "Unknown error"}`;
       
-      await this.slackService.apiCall(
+      await slack.apiCall(
         "chat.postMessage",
         {
           channel,
           thread_ts,
           text: errorMessage,
         },
-        this.slackService.getBotToken()!
+        slack.getBotToken()!
       );
     }
   }
@@ -783,41 +1694,60 @@ export class SlackEventsHandler {
   /**
    * Summarize the result of a Slack thread conversation
    * @param params - Parameters for summarizing thread results
+   * @param params.slack - Slack client for the workspace
+   * @param params.config - Settings of the channel
    * @param params.channel - Slack channel ID
    * @param params.thread_ts - Slack thread timestamp
    * @param params.channelName - Slack channel name
    * @param params.threadUrl - Slack thread URL
    * @param params.threadText - Thread text content
+   * @param params.userNames - Display names by user ID, to turn @name in
+   * next steps back into Slack mentions
+   * @param params.threadNote - Note to add to the reply
+   * @param params.user - Slack user who asked for the summary
    */
   private async summarizeThreadResult({
+    slack,
+    config,
     channel,
     thread_ts,
     channelName,
     threadUrl,
     threadText,
+    userNames,
+    threadNote,
+    user,
   }: {
+    slack: SlackService;
+    config: ChannelConfig;
     channel: string;
     thread_ts: string;
     channelName: string;
     threadUrl: string;
     threadText: string;
+    userNames: Map<string, string>;
+    threadNote?: string;
+    user?: string;
   }): Promise<void> {
     try {
       // Generate thread summary using LLM
       console.log("Generating thread summary...");
-      const summaryResult = await summarizeThreadResult(threadText);
+      const summaryResult = await summarizeThreadResult(
+        threadText,
+        config.thresholds.summary
+      );
 
       if ("error" in summaryResult) {
         const message = `❌ Failed to generate thread summary: *${summaryResult.error}*`;
         
-        await this.slackService.apiCall(
+        await slack.apiCall(
           "chat.postMessage",
           {
             channel,
             thread_ts,
             text: message,
           },
-          this.slackService.getBotToken()!
+          slack.getBotToken()!
         );
         return;
       }
@@ -843,25 +1773,47 @@ export class SlackEventsHandler {
       }
 
       if (summaryResult.next_steps.length > 0) {
-        message += `*Next Steps:*\n`;
-        summaryResult.next_steps.forEach((step, index) => {
-          message += `${index + 1}. ${step}\n`;
+        const steps = summaryResult.next_steps.map((step) =>
+          linkMentions(step, userNames)
+        );
+        const tasks = await this.trackNextSteps({
+          slack,
+          steps,
+          channel,
+          thread_ts,
+          threadUrl,
+          user,
         });
+
+        message += `*Next Steps:*\n`;
+        if (tasks) {
+          tasks.forEach((task) => {
+            message += `• ${this.formatTask(task)}\n`;
+          });
+          message += `_Tracked as tasks. Mention me with "done #N" when one is finished._\n`;
+        } else {
+          steps.forEach((step, index) => {
+            message += `${index + 1}. ${step}\n`;
+          });
+        }
         message += `\n`;
       }
 
       // message += `*Confidence:* ${summaryResult.confidence}%\n`;
       message += `\n<${threadUrl}|View original thread>`;
+      if (threadNote) {
+        message += `\n${threadNote}`;
+      }
 
       // Post the summary message
-      await this.slackService.apiCall(
+      await slack.apiCall(
         "chat.postMessage",
         {
           channel,
           thread_ts,
           text: message,
         },
-        this.slackService.getBotToken()!
+        slack.getBotToken()!
       );
 
       console.log("Successfully posted thread summary to Slack");
@@ -871,15 +1823,1098 @@ export class SlackEventsHandler {
       // Post error message
       const errorMessage = `❌ Failed to summarize thread: ${error instanceof Error ? error.message : "Unknown error"}`;
       
-      await this.slackService.apiCall(
+      await slack.apiCall(
         "chat.postMessage",
         {
           channel,
           thread_ts,
           text: errorMessage,
         },
-        this.slackService.getBotToken()!
+        slack.getBotToken()!
+      );
+    }
+  }
+
+  /**
+   * Store the next steps of a summary as follow-up tasks, if enabled with
+   * TRACK_NEXT_STEPS=true. The assignee is the first person mentioned in a
+   * step and the due date is read from its wording.
+   * @returns Promise<FollowUpTask[] | undefined> - The tasks, or undefined
+   * when tracking is off or failed
+   */
+  private async trackNextSteps({
+    slack,
+    steps,
+    channel,
+    thread_ts,
+    threadUrl,
+    user,
+  }: {
+    slack: SlackService;
+    steps: string[];
+    channel: string;
+    thread_ts: string;
+    threadUrl: string;
+    user?: string;
+  }): Promise<FollowUpTask[] | undefined> {
+    if (process.env.TRACK_NEXT_STEPS !== "true") {
+      return undefined;
+    }
+
+    try {
+      const botUserId = await slack.getBotUserId();
+      const teamId = await slack.getTeamId();
+      const now = new Date();
+      const tasks: NewFollowUpTask[] = steps.map((step) => ({
+        text: step,
+        assignee: parseMentions(step).find((id) => id !== botUserId),
+        due_date: parseDueDate(step, now),
+        channel,
+        thread_ts,
+        thread_url: threadUrl,
+        created_by: user,
+        team_id: teamId,
+      }));
+      const created = await this.taskService.createTasks(tasks);
+      console.log(`Tracked ${created.length} next steps as tasks`);
+      return created;
+    } catch (error) {
+      console.error("Failed to track next steps as tasks:", error);
+      return undefined;
+    }
+  }
+
+  /**
+   * List the open tasks of the mentioned user, or of the requester
+   * @param params - Parameters for listing tasks
+   * @param params.slack - Slack client for the workspace
+   * @param params.channel - Slack channel ID
+   * @param params.thread_ts - Slack thread timestamp
+   * @param params.commandText - Text of the mention that asked for the list
+   * @param params.user - Slack user who asked
+   */
+  private async listOpenTasks({
+    slack,
+    channel,
+    thread_ts,
+    commandText,
+    user,
+  }: {
+    slack: SlackService;
+    channel: string;
+    thread_ts: string;
+    commandText: string;
+    user?: string;
+  }): Promise<void> {
+    try {
+      const botUserId = await slack.getBotUserId();
+      const assignee =
+        parseMentions(commandText).find((id) => id !== botUserId) || user;
+      if (!assignee) {
+        await this.postMessage(slack, channel, thread_ts, "❌ I couldn't tell whose tasks to list.");
+        return;
+      }
+
+      const tasks = await this.taskService.getOpenTasks(
+        await slack.getTeamId(),
+        assignee
+      );
+      if (tasks.length === 0) {
+        await this.postMessage(slack, channel, thread_ts, `✅ <@${assignee}> has no open tasks.`);
+        return;
+      }
+
+      let message = `📝 *Open tasks for <@${assignee}>*\n\n`;
+      tasks.forEach((task) => {
+        const source = task.thread_url ? ` <${task.thread_url}|thread>` : "";
+        message += `• ${this.formatTask(task)}${source}\n`;
+      });
+      await this.postMessage(slack, channel, thread_ts, message);
+    } catch (error) {
+      console.error("Error listing tasks:", error);
+      await this.postMessage(
+        slack,
+        channel,
+        thread_ts,
+        `❌ Failed to list tasks: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+
+  /**
+   * Mark the tasks referenced by number ("#12", "task 12") as done
+   * @param params - Parameters for completing tasks
+   * @param params.slack - Slack client for the workspace
+   * @param params.channel - Slack channel ID
+   * @param params.thread_ts - Slack thread timestamp
+   * @param params.commandText - Text of the mention naming the tasks
+   * @param params.user - Slack user completing them
+   */
+  private async completeTasks({
+    slack,
+    channel,
+    thread_ts,
+    commandText,
+    user,
+  }: {
+    slack: SlackService;
+    channel: string;
+    thread_ts: string;
+    commandText: string;
+    user?: string;
+  }): Promise<void> {
+    try {
+      const numbers = parseTaskNumbers(commandText);
+      if (numbers.length === 0) {
+        await this.postMessage(
+          slack,
+          channel,
+          thread_ts,
+          `❓ Which task? Mention me with the task number, e.g. "done #12".`
+        );
+        return;
+      }
+
+      const { completed, skipped } = await this.taskService.completeTasks(
+        await slack.getTeamId(),
+        numbers,
+        user
+      );
+
+      let message = "";
+      if (completed.length > 0) {
+        message += `✅ Marked done:\n`;
+        completed.forEach((task) => {
+          message += `• #${task.number} ${task.text}\n`;
+        });
+      }
+      if (skipped.length > 0) {
+        message += `⚠️ No open task ${skipped.map((number) => `#${number}`).join(", ")}.`;
+      }
+      await this.postMessage(slack, channel, thread_ts, message.trim());
+    } catch (error) {
+      console.error("Error completing tasks:", error);
+      await this.postMessage(
+        slack,
+        channel,
+        thread_ts,
+        `❌ Failed to complete tasks: ${error instanceof Error ? error.message : "Unknown error"}`
       );
     }
   }
+
+  /**
+   * Remind the assignee in the original thread that a task is due
+   * @param task - The task that came due
+   */
+  private async remindAboutTask(task: FollowUpTask): Promise<void> {
+    const slack = await this.installations.clientFor(task.team_id);
+    if (!slack) {
+      return;
+    }
+    const who = task.assignee ? `<@${task.assignee}>` : "Reminder:";
+    await this.postMessage(
+      slack,
+      task.channel,
+      task.thread_ts,
+      `⏰ ${who} task #${task.number} is due ${task.due_date}: ${task.text}\nMention me with "done #${task.number}" when it's finished.`
+    );
+  }
+
+  /**
+   * Format a task as "#N text (due date)". The assignee's mention is part of
+   * the text already.
+   * @param task - The task
+   */
+  private formatTask(task: FollowUpTask): string {
+    return `#${task.number} ${task.text}${task.due_date ? ` _(due ${task.due_date})_` : ""}`;
+  }
+
+  /**
+   * Show the revision history of a decision
+   * @param params - Parameters for showing decision history
+   * @param params.slack - Slack client for the workspace
+   * @param params.services - Decision store of the channel
+   * @param params.channel - Slack channel ID
+   * @param params.thread_ts - Slack thread timestamp
+   * @param params.threadText - Thread text content
+   */
+  private async showDecisionHistory({
+    slack,
+    services,
+    channel,
+    thread_ts,
+    threadText,
+  }: {
+    slack: SlackService;
+    services: DecisionServices;
+    channel: string;
+    thread_ts: string;
+    threadText: string;
+  }): Promise<void> {
+    try {
+      const decision = await this.resolveSingleDecision({
+        slack,
+        services,
+        channel,
+        thread_ts,
+        threadText,
+        verb: "show the history of",
+      });
+      if (!decision) {
+        return;
+      }
+
+      const revisions = await this.revisionService.getRevisions(decision.id);
+      if (revisions.length === 0) {
+        await this.postMessage(
+          slack,
+          channel,
+          thread_ts,
+          `📜 No recorded history for *${decision.title}* yet.`
+        );
+        return;
+      }
+
+      let message = `📜 *History of ${decision.title}*\n`;
+      revisions.forEach((revision, index) => {
+        const date = new Date(revision.timestamp).toLocaleString("en-GB", {
+          timeZone: "UTC",
+        });
+        const by = revision.user ? ` by <@${revision.user}>` : "";
+        const where = revision.thread_url
+          ? ` in <${revision.thread_url}|this thread>`
+          : "";
+        message += `\n*${index + 1}. ${revision.action}*${by}${where} — ${date} UTC\n`;
+
+        const fields = new Set([
+          ...Object.keys(revision.before),
+          ...Object.keys(revision.after),
+        ]) as Set<keyof DecisionFields>;
+        fields.forEach((field) => {
+          const before = revision.before[field];
+          const after = revision.after[field];
+          if (before === after) {
+            return;
+          }
+          message += `   • ${field}: ${before ? `~${before}~ ` : ""}${after ? `→ ${after}` : "(removed)"}\n`;
+        });
+      });
+
+      await this.postMessage(slack, channel, thread_ts, message);
+      console.log(`Posted history for decision ${decision.id}`);
+    } catch (error) {
+      console.error("Error showing decision history:", error);
+      await this.postMessage(
+        slack,
+        channel,
+        thread_ts,
+        `❌ Failed to show decision history: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+
+  /**
+   * Revert a decision to the version before its latest change
+   * @param params - Parameters for reverting a decision
+   * @param params.slack - Slack client for the workspace
+   * @param params.services - Decision store of the channel
+   * @param params.channel - Slack channel ID
+   * @param params.thread_ts - Slack thread timestamp
+   * @param params.threadUrl - Slack thread URL
+   * @param params.threadText - Thread text content
+   * @param params.user - Slack user who triggered the action
+   */
+  private async revertDecision({
+    slack,
+    services,
+    channel,
+    thread_ts,
+    threadUrl,
+    threadText,
+    user,
+  }: {
+    slack: SlackService;
+    services: DecisionServices;
+    channel: string;
+    thread_ts: string;
+    threadUrl: string;
+    threadText: string;
+    user?: string;
+  }): Promise<void> {
+    try {
+      const decision = await this.resolveSingleDecision({
+        slack,
+        services,
+        channel,
+        thread_ts,
+        threadText,
+        verb: "revert",
+      });
+      if (!decision) {
+        return;
+      }
+
+      const revision = await this.revisionService.getLatestRevertible(
+        decision.id
+      );
+      if (!revision) {
+        await this.postMessage(
+          slack,
+          channel,
+          thread_ts,
+          `❌ *${decision.title}* has no previous version to revert to.`
+        );
+        return;
+      }
+
+      console.log(
+        `Reverting decision ${decision.id} to before revision ${revision.id}...`
+      );
+      // Revisions recorded before snapshots existed restore what they have
+      const updateResult = await services.decisionRepository.updateDecision(
+        decision.id,
+        revision.snapshot
+          ? restoreChanges(revision.snapshot, decision)
+          : revision.before
+      );
+
+      if (!updateResult.success) {
+        await this.postMessage(
+          slack,
+          channel,
+          thread_ts,
+          `❌ Failed to revert decision: *${updateResult.error}*`
+        );
+        return;
+      }
+
+      await this.recordRevision({
+        decision_id: decision.id,
+        action: "revert",
+        user,
+        channel,
+        thread_ts,
+        thread_url: threadUrl,
+        team_id: await slack.getTeamId(),
+        before: pickFields(decision, Object.keys(revision.before)),
+        after: revision.before,
+        snapshot: snapshotOf(decision),
+      });
+
+      const restoredTitle = revision.before.title || decision.title;
+      const restoredSummary = revision.before.summary || decision.summary;
+      await this.postMessage(
+        slack,
+        channel,
+        thread_ts,
+        `↩️ Decision reverted to its previous version.\n\n*Decision:* ${restoredTitle}\n*Summary:* ${restoredSummary}`
+      );
+    } catch (error) {
+      console.error("Error reverting decision:", error);
+      await this.postMessage(
+        slack,
+        channel,
+        thread_ts,
+        `❌ Failed to revert decision: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+
+  /**
+   * Whether changed decisions are recorded as new, superseding decisions
+   * instead of being overwritten (DECISION_CHANGE_MODE=supersede)
+   */
+  private supersedesChanges(): boolean {
+    return process.env.DECISION_CHANGE_MODE === "supersede";
+  }
+
+  /**
+   * Add a decision that replaces an existing one, then mark the existing
+   * one superseded so the two link to each other
+   * @param params - Parameters for superseding a decision
+   * @param params.services - Decision store of the channel
+   * @param params.previous - The decision being replaced
+   * @param params.entry - The new decision
+   * @param params.user - Slack user who triggered the action
+   * @param params.channel - Slack channel ID
+   * @param params.thread_ts - Slack thread timestamp
+   * @param params.threadUrl - Slack thread URL
+   * @returns Promise<NotionOperationResult> - Result of adding the new decision
+   */
+  private async supersedeDecision({
+    services,
+    previous,
+    entry,
+    user,
+    channel,
+    thread_ts,
+    threadUrl,
+  }: {
+    services: DecisionServices;
+    previous: StoredDecision;
+    entry: NotionDatabaseEntry;
+    user?: string;
+    channel: string;
+    thread_ts: string;
+    threadUrl: string;
+  }): Promise<NotionOperationResult> {
+    const revisionContext = {
+      user,
+      channel,
+      thread_ts,
+      thread_url: threadUrl,
+      team_id: entry.team_id,
+    };
+    const addResult = await createDecision(
+      services,
+      {
+        ...entry,
+        status: entry.status || "accepted",
+        supersedes: previous.id,
+        superseded_by: undefined,
+      },
+      revisionContext
+    );
+
+    if (!addResult.success || !addResult.page_id) {
+      return addResult;
+    }
+
+    const linkResult = await services.decisionRepository.updateDecision(
+      previous.id,
+      { status: "superseded", superseded_by: addResult.page_id }
+    );
+    if (!linkResult.success) {
+      console.error(
+        `Added ${addResult.page_id} but failed to mark ${previous.id} superseded:`,
+        linkResult.error
+      );
+    }
+
+    await this.recordRevision({
+      ...revisionContext,
+      decision_id: previous.id,
+      action: "supersede",
+      before: {},
+      after: {},
+    });
+
+    return addResult;
+  }
+
+  /**
+   * Find the single decision a thread refers to, posting an explanation
+   * to the thread when there is no match or the match is ambiguous
+   * @returns The matched decision, or null if the caller should stop
+   */
+  private async resolveSingleDecision({
+    slack,
+    services,
+    channel,
+    thread_ts,
+    threadText,
+    verb,
+  }: {
+    slack: SlackService;
+    services: DecisionServices;
+    channel: string;
+    thread_ts: string;
+    threadText: string;
+    verb: string;
+  }): Promise<StoredDecision | null> {
+    console.log("Retrieving all decisions from the decision store...");
+    const existingDecisions = await this.decisionsOf(
+      await slack.getTeamId(),
+      services
+    );
+
+    if (existingDecisions.length === 0) {
+      await this.postMessage(
+        slack,
+        channel,
+        thread_ts,
+        `❌ No decisions found in the database to ${verb}.`
+      );
+      return null;
+    }
+
+    const candidates = await services.decisionIndex.findCandidates(
+      threadText,
+      existingDecisions
+    );
+    const relatedDecisionsResult = await findRelatedDecisions(
+      threadText,
+      candidates
+    );
+
+    if (isLLMFailure(relatedDecisionsResult)) {
+      await this.postMessage(
+        slack,
+        channel,
+        thread_ts,
+        `❌ ${relatedDecisionsResult.error}`
+      );
+      return null;
+    }
+
+    if (relatedDecisionsResult.related_decisions.length === 0) {
+      await this.postMessage(
+        slack,
+        channel,
+        thread_ts,
+        `❌ No related decisions found to ${verb}. The thread doesn't seem to relate to any existing decisions in the database.`
+      );
+      return null;
+    }
+
+    if (relatedDecisionsResult.related_decisions.length > 1) {
+      await this.postMessage(
+        slack,
+        channel,
+        thread_ts,
+        `❌ Multiple related decisions found. Please be more specific about which decision you want to ${verb}.\n\nRelated decisions:\n${relatedDecisionsResult.related_decisions.map((d) => `• ${d.title}`).join("\n")}`
+      );
+      return null;
+    }
+
+    // The id from findRelatedDecisions is a 1-based index into the candidates
+    const decision =
+      candidates[relatedDecisionsResult.related_decisions[0].id - 1];
+    if (!decision) {
+      await this.postMessage(
+        slack,
+        channel,
+        thread_ts,
+        `❌ Decision not found in database.`
+      );
+      return null;
+    }
+
+    return decision;
+  }
+
+  /**
+   * Record a revision without letting a history failure break the main flow
+   */
+  private async recordRevision(
+    revision: Parameters<RevisionService["recordRevision"]>[0]
+  ): Promise<void> {
+    try {
+      await this.revisionService.recordRevision(revision);
+    } catch (error) {
+      console.error("Failed to record decision revision:", error);
+    }
+  }
+
+  /**
+   * Show or change the settings of a channel, or the defaults of its
+   * workspace. When ADMIN_USER_IDS is set, only those users may change them.
+   * @param params - Parameters for the config command
+   * @param params.slack - Slack client for the workspace
+   * @param params.command - The parsed config command
+   * @param params.teamId - Slack team (workspace) ID
+   * @param params.channel - Slack channel ID
+   * @param params.thread_ts - Slack thread timestamp
+   * @param params.channelName - Slack channel name
+   * @param params.user - Slack user who sent the command
+   */
+  private async configureChannel({
+    slack,
+    command,
+    teamId,
+    channel,
+    thread_ts,
+    channelName,
+    user,
+  }: {
+    slack: SlackService;
+    command: ConfigCommand;
+    teamId?: string;
+    channel: string;
+    thread_ts: string;
+    channelName: string;
+    user?: string;
+  }): Promise<void> {
+    try {
+      if (command.action === "help") {
+        await this.postMessage(slack, channel, thread_ts, `❌ ${command.error} ${CONFIG_USAGE}`);
+        return;
+      }
+
+      if (command.action === "show") {
+        const levels = await this.channelConfig.describe(teamId, channel);
+        let message =
+          command.scope === "workspace"
+            ? "⚙️ *Workspace defaults*\n"
+            : `⚙️ *Settings for #${channelName}*\n`;
+        for (const key of SETTING_KEYS) {
+          if (command.scope === "workspace") {
+            message += `• ${key}: ${levels.workspace[key] === undefined ? "_(built-in default)_" : formatSettingValue(levels.workspace[key])}\n`;
+            continue;
+          }
+          const source =
+            levels.channel[key] !== undefined
+              ? "this channel"
+              : levels.workspace[key] !== undefined
+                ? "workspace"
+                : "default";
+          message += `• ${key}: ${formatSettingValue(levels.settings[key])} _(${source})_\n`;
+        }
+        message += `\n${CONFIG_USAGE}`;
+        await this.postMessage(slack, channel, thread_ts, message);
+        return;
+      }
+
+      if (!this.isAdmin(user)) {
+        await this.postMessage(
+          slack,
+          channel,
+          thread_ts,
+          "🚫 Only admins can change settings."
+        );
+        return;
+      }
+
+      // A store setting exposes that store's decisions, and workspace
+      // defaults change every channel, so neither is open to everyone
+      const key: ChannelSettingKey = command.key;
+      if (
+        (command.scope === "workspace" || STORE_SETTING_KEYS.includes(key)) &&
+        !this.isListedAdmin(user)
+      ) {
+        await this.postMessage(
+          slack,
+          channel,
+          thread_ts,
+          "🚫 Only admins listed in ADMIN_USER_IDS can change the decision store or workspace defaults."
+        );
+        return;
+      }
+
+      let value: ChannelSettings[ChannelSettingKey];
+      if (command.action === "set") {
+        const parsed = parseSettingValue(key, command.value);
+        if ("error" in parsed) {
+          await this.postMessage(slack, channel, thread_ts, `❌ ${parsed.error}`);
+          return;
+        }
+        value = parsed.value;
+      }
+
+      const previous = await this.channelConfig.set(
+        command.scope,
+        teamId,
+        channel,
+        key,
+        value
+      );
+
+      // Keep a new store only if it can be opened
+      if (STORE_SETTING_KEYS.includes(key)) {
+        try {
+          this.decisionServicesFor(
+            await this.channelConfig.resolve(teamId, channel)
+          );
+        } catch (error) {
+          await this.channelConfig.set(
+            command.scope,
+            teamId,
+            channel,
+            key,
+            previous
+          );
+          await this.postMessage(
+            slack,
+            channel,
+            thread_ts,
+            `❌ That decision store can't be used: ${error instanceof Error ? error.message : "unknown error"}. Nothing was changed.`
+          );
+          return;
+        }
+      }
+
+      const where =
+        command.scope === "workspace"
+          ? "as the workspace default"
+          : `for #${channelName}`;
+      const message =
+        command.action === "set"
+          ? `✅ Set ${key} to ${formatSettingValue(value)} ${where}.`
+          : `✅ Cleared ${key} ${where}, so it is inherited again.`;
+      console.log(
+        `${user || "unknown user"} changed ${key} (${command.scope}) in ${teamId || "default"}:${channel}`
+      );
+      await this.postMessage(slack, channel, thread_ts, message);
+    } catch (error) {
+      console.error("Error changing channel settings:", error);
+      await this.postMessage(
+        slack,
+        channel,
+        thread_ts,
+        "❌ Failed to update the settings. Please try again."
+      );
+    }
+  }
+
+  /**
+   * Handle the tags command: list the managed tags, or rename, merge or
+   * alias them and retag the stored decisions to match
+   * @param params - Parameters for the tags command
+   * @param params.slack - Slack client for the workspace
+   * @param params.command - The parsed tags command
+   * @param params.teamId - Slack team (workspace) ID
+   * @param params.channel - Slack channel ID
+   * @param params.thread_ts - Slack thread timestamp
+   * @param params.user - Slack user who sent the command
+   */
+  private async manageTags({
+    slack,
+    command,
+    teamId,
+    channel,
+    thread_ts,
+    user,
+  }: {
+    slack: SlackService;
+    command: TagCommand;
+    teamId?: string;
+    channel: string;
+    thread_ts: string;
+    user?: string;
+  }): Promise<void> {
+    try {
+      if (command.action === "help") {
+        await this.postMessage(slack, channel, thread_ts, `❌ ${command.error} ${TAGS_USAGE}`);
+        return;
+      }
+
+      // Decisions logged before the vocabulary existed bring their tags in
+      await this.knownTags(
+        teamId,
+        this.decisionServicesFor(await this.channelConfig.resolve(teamId, channel))
+      );
+
+      if (command.action === "list") {
+        const tags = await this.tagService.list(teamId);
+        const lines = tags.map(
+          (tag) =>
+            `• ${tag.name}${tag.aliases.length > 0 ? ` _(also: ${tag.aliases.join(", ")})_` : ""}`
+        );
+        await this.postMessage(
+          slack,
+          channel,
+          thread_ts,
+          `${lines.length > 0 ? `🏷️ *Tags*\n${lines.join("\n")}` : "🏷️ There are no tags yet."}\n\n${TAGS_USAGE}`
+        );
+        return;
+      }
+
+      // Retagging rewrites decisions across the workspace's stores, so unlike
+      // channel settings this is never open to everyone
+      if (!this.isListedAdmin(user)) {
+        await this.postMessage(
+          slack,
+          channel,
+          thread_ts,
+          "🚫 Only admins listed in ADMIN_USER_IDS can change tags."
+        );
+        return;
+      }
+
+      let result: TagChangeResult;
+      let done: string;
+      switch (command.action) {
+        case "rename":
+          result = await this.tagService.rename(teamId, command.from, command.to);
+          done = `✅ Renamed tag *${command.from}* to *${command.to}*.`;
+          break;
+        case "merge":
+          result = await this.tagService.merge(teamId, command.from, command.into);
+          done = `✅ Merged tag *${command.from}* into *${command.into}*.`;
+          break;
+        case "alias":
+          result = await this.tagService.addAlias(teamId, command.alias, command.tag);
+          done = `✅ *${command.alias}* now files decisions under *${command.tag}*.`;
+          break;
+      }
+
+      if ("error" in result) {
+        await this.postMessage(slack, channel, thread_ts, `❌ ${result.error}`);
+        return;
+      }
+
+      console.log(
+        `${user || "unknown user"} changed tags: ${command.action} -> ${result.tag.name}`
+      );
+      const { updated, failed } = await this.retagDecisions({
+        teamId,
+        user,
+        channel,
+        thread_ts,
+      });
+      await this.postMessage(
+        slack,
+        channel,
+        thread_ts,
+        `${done}${updated > 0 ? ` Retagged ${updated} decision${updated === 1 ? "" : "s"}.` : ""}${failed > 0 ? `\n⚠️ ${failed} decision${failed === 1 ? "" : "s"} could not be retagged; they keep their old tags until the next change.` : ""}`
+      );
+    } catch (error) {
+      console.error("Error changing tags:", error);
+      await this.postMessage(
+        slack,
+        channel,
+        thread_ts,
+        "❌ Failed to update the tags. Please try again."
+      );
+    }
+  }
+
+  /**
+   * Bring the tags of a workspace's stored decisions, in every store its
+   * channels use, in line with its vocabulary after a rename, merge or alias
+   * @returns Promise - How many decisions were retagged, and how many failed
+   */
+  private async retagDecisions({
+    teamId,
+    user,
+    channel,
+    thread_ts,
+  }: {
+    teamId?: string;
+    user?: string;
+    channel: string;
+    thread_ts: string;
+  }): Promise<{ updated: number; failed: number }> {
+    const vocabulary = await this.tagService.list(teamId);
+    const seen = new Set<DecisionServices>();
+    let updated = 0;
+    let failed = 0;
+
+    for (const target of await this.channelConfig.storesInUse(teamId || "")) {
+      let services: DecisionServices;
+      try {
+        services = this.decisionServicesFor(target);
+      } catch (error) {
+        console.warn(`Skipping decision store ${target.store} when retagging:`, error);
+        continue;
+      }
+      if (seen.has(services)) {
+        continue;
+      }
+      seen.add(services);
+
+      for (const decision of await this.decisionsOf(teamId, services)) {
+        const current = tagsOf(decision);
+        const tags = canonicalTags(current, vocabulary);
+        if (tags.join("\n") === current.join("\n")) {
+          continue;
+        }
+
+        const result = await services.decisionRepository.updateDecision(
+          decision.id,
+          { tag: tags[0], tags }
+        );
+        if (!result.success) {
+          console.error(`Failed to retag decision ${decision.id}:`, result.error);
+          failed++;
+          continue;
+        }
+
+        updated++;
+        if (tags[0] !== decision.tag) {
+          await this.recordRevision({
+            decision_id: decision.id,
+            action: "update",
+            user,
+            channel,
+            thread_ts,
+            team_id: teamId,
+            before: { tag: decision.tag },
+            after: { tag: tags[0] },
+            snapshot: snapshotOf(decision),
+          });
+        }
+      }
+    }
+
+    return { updated, failed };
+  }
+
+  /**
+   * A workspace's managed tag names, for extraction to choose from. The
+   * first time, the vocabulary is seeded with the tags already on the
+   * workspace's stored decisions.
+   * @param teamId - Slack team (workspace) ID
+   * @param services - Decision store of the channel
+   * @returns Promise<string[]>
+   */
+  private async knownTags(
+    teamId: string | undefined,
+    services: DecisionServices
+  ): Promise<string[]> {
+    const names = await this.tagService.names(teamId);
+    if (names.length > 0) {
+      return names;
+    }
+
+    const decisions = await this.decisionsOf(teamId, services);
+    await this.tagService.register(teamId, decisions.flatMap(tagsOf));
+    return this.tagService.names(teamId);
+  }
+
+  /**
+   * Replace the tags of an extracted decision with a workspace's canonical
+   * names
+   * @param teamId - Slack team (workspace) ID
+   * @param decision - Extracted decision or candidate
+   * @returns The decision with tag and tags from the vocabulary
+   */
+  private async withCanonicalTags<T extends { tag: string; tags?: string[] }>(
+    teamId: string | undefined,
+    decision: T
+  ): Promise<T> {
+    const tags = await this.tagService.canonicalize(teamId, tagsOf(decision));
+    return { ...decision, tag: tags[0] || decision.tag, tags };
+  }
+
+  /**
+   * Line for a reply naming tags that were added to the vocabulary
+   * @param tags - Tags that were new
+   * @returns string - Empty when there were none
+   */
+  private newTagsNote(tags: string[]): string {
+    return tags.length > 0
+      ? `\n_🏷️ New tag${tags.length === 1 ? "" : "s"}: ${tags.join(", ")}_`
+      : "";
+  }
+
+  /**
+   * Whether a user may change settings: anyone, unless ADMIN_USER_IDS
+   * lists the admins
+   */
+  private isAdmin(user?: string): boolean {
+    return this.adminUserIds().length === 0 || this.isListedAdmin(user);
+  }
+
+  /**
+   * Whether ADMIN_USER_IDS lists the user; nobody is when it is unset
+   */
+  private isListedAdmin(user?: string): boolean {
+    return user !== undefined && this.adminUserIds().includes(user);
+  }
+
+  private adminUserIds(): string[] {
+    return (process.env.ADMIN_USER_IDS || "")
+      .split(",")
+      .map((id) => id.trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * Decision services for the store a channel writes to
+   * @throws When the store is not configured, e.g. Notion without a key
+   */
+  private decisionServicesFor(
+    config: Pick<ChannelConfig, "store" | "notion_database">
+  ): DecisionServices {
+    return this.decisionServices.get({
+      store: config.store,
+      notionDatabase: config.notion_database,
+    });
+  }
+
+  /**
+   * Pick the decision record fields (status, rationale, ...) from a decision
+   * @param source - Object holding decision record fields
+   * @returns DecisionRecordFields
+   */
+  private pickRecordFields(source: DecisionRecordFields): DecisionRecordFields {
+    const { status, context, rationale, alternatives } = source;
+    const { consequences, owner, decision_date } = source;
+    const { decided_by, participants, tags } = source;
+    return {
+      status,
+      context,
+      rationale,
+      alternatives,
+      consequences,
+      owner,
+      decision_date,
+      decided_by,
+      participants,
+      tags,
+    };
+  }
+
+  /**
+   * Distinct participant names, or undefined when there are none (e.g. the
+   * thread could not be fetched)
+   * @param names - Display names
+   * @returns string[] | undefined
+   */
+  private distinctParticipants(names: string[]): string[] | undefined {
+    const distinct = [...new Set(names.filter(Boolean))];
+    return distinct.length > 0 ? distinct : undefined;
+  }
+
+  /**
+   * The decisions of one workspace in a store that several may share.
+   * Decisions logged before team IDs were recorded belong to the workspace
+   * only when the app serves a single one.
+   * @param teamId - Slack team (workspace) ID
+   * @param services - Decision store
+   * @returns Promise<StoredDecision[]>
+   */
+  private async decisionsOf(
+    teamId: string | undefined,
+    services: DecisionServices
+  ): Promise<StoredDecision[]> {
+    const multiWorkspace = this.installations.isMultiWorkspace();
+    return (await services.decisionRepository.getAllDecisions()).filter(
+      (decision) =>
+        decision.team_id ? decision.team_id === teamId : !multiWorkspace
+    );
+  }
+
+  /**
+   * Post a message to a Slack thread with the bot token
+   */
+  private async postMessage(
+    slack: SlackService,
+    channel: string,
+    thread_ts: string,
+    text: string
+  ): Promise<void> {
+    await slack.apiCall(
+      "chat.postMessage",
+      {
+        channel,
+        thread_ts,
+        text,
+      },
+      slack.getBotToken()!
+    );
+  }
+
+  /**
+   * Replace the text of a message posted by the bot, removing any buttons
+   */
+  private async updateMessage(
+    slack: SlackService,
+    channel: string,
+    ts: string,
+    text: string
+  ): Promise<void> {
+    await slack.apiCall(
+      "chat.update",
+      {
+        channel,
+        ts,
+        text,
+        blocks: [],
+      },
+      slack.getBotToken()!
+    );
+  }
 }
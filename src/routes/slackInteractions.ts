@@ -0,0 +1,110 @@
+import { Response } from "express";
+import { SlackVerification } from "../middleware/slackVerification";
+import { SlackEventsHandler } from "./slackEvents";
+import { ExtendedRequest, SlackInteractionPayload } from "../types";
+import {
+  DELETE_CANCEL_ACTION,
+  DELETE_CONFIRM_ACTION,
+  LOG_DECISIONS_CANCEL_ACTION,
+  LOG_DECISIONS_CONFIRM_ACTION,
+  LOG_DECISIONS_SELECT_ACTION,
+} from "../utils/slackBlocks";
+
+/**
+ * Slack interactivity route handler (button clicks on bot messages)
+ */
+export class SlackInteractionsHandler {
+  private slackVerification: SlackVerification;
+  private slackEventsHandler: SlackEventsHandler;
+
+  constructor(slackEventsHandler: SlackEventsHandler) {
+    this.slackVerification = new SlackVerification();
+    this.slackEventsHandler = slackEventsHandler;
+  }
+
+  /**
+   * Handle Slack interactions endpoint
+   * @param req - Express request object (form-encoded with a JSON `payload` field)
+   * @param res - Express response object
+   */
+  async handleInteractions(req: ExtendedRequest, res: Response): Promise<void> {
+    console.log("Received request to /slack/interactions");
+
+    const verification = this.slackVerification.verify(req);
+    if (!verification.valid) {
+      console.log(`Signature verification failed: ${verification.reason}`);
+      res.status(401).send("bad sig");
+      return;
+    }
+
+    let payload: SlackInteractionPayload;
+    try {
+      payload = JSON.parse(req.body?.payload);
+    } catch (error) {
+      console.warn("Invalid interaction payload:", error);
+      res.status(400).send("bad payload");
+      return;
+    }
+
+    res.status(200).send(); // Acknowledge immediately
+
+    try {
+      await this.processInteraction(payload);
+    } catch (error) {
+      console.error("Error processing interaction:", error);
+    }
+  }
+
+  /**
+   * Dispatch a block action to the handler that owns it
+   * @param payload - Slack interaction payload
+   */
+  private async processInteraction(
+    payload: SlackInteractionPayload
+  ): Promise<void> {
+    if (payload.type !== "block_actions" || !payload.actions?.length) {
+      return;
+    }
+
+    for (const action of payload.actions) {
+      console.log(`Processing block action ${action.action_id}`);
+
+      switch (action.action_id) {
+        case DELETE_CONFIRM_ACTION:
+          await this.slackEventsHandler.handleDeletionAction(
+            "confirm",
+            action.value || "",
+            payload
+          );
+          break;
+        case DELETE_CANCEL_ACTION:
+          await this.slackEventsHandler.handleDeletionAction(
+            "cancel",
+            action.value || "",
+            payload
+          );
+          break;
+        case LOG_DECISIONS_CONFIRM_ACTION:
+          await this.slackEventsHandler.handleLogDecisionsAction(
+            "confirm",
+            action.value || "",
+            payload
+          );
+          break;
+        case LOG_DECISIONS_CANCEL_ACTION:
+          await this.slackEventsHandler.handleLogDecisionsAction(
+            "cancel",
+            action.value || "",
+            payload
+          );
+          break;
+        case LOG_DECISIONS_SELECT_ACTION:
+          // Checkbox changes are read from the state when the button is clicked
+          break;
+        default:
+          console.warn(`Unknown block action: ${action.action_id}`);
+          break;
+      }
+    }
+  }
+}
@@ -0,0 +1,188 @@
+import crypto from "crypto";
+import { Request, Response } from "express";
+import { SlackInstallationService } from "../services/slackInstallationService";
+import { SlackService } from "../services/slackService";
+import { SlackResponse } from "../types";
+import { renderInstallError, renderInstallSuccess } from "../views/slackInstall";
+
+const DEFAULT_BOT_SCOPES =
+  "app_mentions:read,channels:history,channels:read,chat:write,users:read";
+const DEFAULT_USER_SCOPES = "channels:history,groups:history";
+
+const STATE_COOKIE = "slack_oauth_state";
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Slack OAuth install flow. /slack/install sends the user to Slack to
+ * approve the app; Slack sends them back to /slack/oauth_redirect with a
+ * code, which is exchanged for the workspace's tokens.
+ */
+export class SlackOAuthHandler {
+  private installations: SlackInstallationService;
+
+  constructor(installations: SlackInstallationService) {
+    this.installations = installations;
+  }
+
+  /**
+   * GET /slack/install - redirect to Slack's authorize page
+   * @param req - Express request object
+   * @param res - Express response object
+   */
+  async install(req: Request, res: Response): Promise<void> {
+    const clientId = process.env.SLACK_CLIENT_ID;
+    if (!clientId || !process.env.SLACK_CLIENT_SECRET) {
+      res
+        .status(503)
+        .send(renderInstallError("Installing is disabled: SLACK_CLIENT_ID and SLACK_CLIENT_SECRET are not configured."));
+      return;
+    }
+
+    // The state is signed, and its nonce is also kept in a cookie so the
+    // redirect must come back to the browser that started the install
+    const nonce = crypto.randomBytes(16).toString("hex");
+    const state = this.signState(nonce, Date.now());
+
+    const params = new URLSearchParams({
+      client_id: clientId,
+      scope: process.env.SLACK_BOT_SCOPES || DEFAULT_BOT_SCOPES,
+      user_scope: process.env.SLACK_USER_SCOPES ?? DEFAULT_USER_SCOPES,
+      redirect_uri: this.redirectUri(req),
+      state,
+    });
+
+    res.cookie(STATE_COOKIE, nonce, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: req.secure,
+      maxAge: STATE_TTL_MS,
+    });
+    res.redirect(`https://slack.com/oauth/v2/authorize?${params.toString()}`);
+  }
+
+  /**
+   * GET /slack/oauth_redirect - exchange the code for tokens and save the
+   * installation
+   * @param req - Express request object
+   * @param res - Express response object
+   */
+  async redirect(req: Request, res: Response): Promise<void> {
+    res.clearCookie(STATE_COOKIE);
+
+    if (typeof req.query.error === "string") {
+      res.status(400).send(renderInstallError(`Slack reported: ${req.query.error}`));
+      return;
+    }
+
+    const code = typeof req.query.code === "string" ? req.query.code : "";
+    const state = typeof req.query.state === "string" ? req.query.state : "";
+    if (!code || !this.verifyState(state, readCookie(req, STATE_COOKIE))) {
+      res
+        .status(400)
+        .send(renderInstallError("The install link expired or was opened in another browser."));
+      return;
+    }
+
+    try {
+      const access = await this.exchangeCode(code, this.redirectUri(req));
+      if (!access.ok || !access.access_token || !access.team?.id) {
+        throw new Error(`oauth.v2.access failed: ${access.error || "no bot token"}`);
+      }
+
+      // The workspace URL is used for thread links when permalinks fail
+      const slack = new SlackService({ botToken: access.access_token });
+      const auth = await slack.apiCall("auth.test", {}, access.access_token);
+
+      await this.installations.save({
+        team_id: access.team.id,
+        team_name: access.team.name,
+        team_url: auth.url,
+        bot_token: access.access_token,
+        bot_user_id: access.bot_user_id,
+        bot_scopes: access.scope,
+        user_token: access.authed_user?.access_token,
+        user_scopes: access.authed_user?.scope,
+        installed_by: access.authed_user?.id,
+        installed_at: new Date().toISOString(),
+      });
+
+      console.log(`Installed in workspace ${access.team.name} (${access.team.id})`);
+      res.send(renderInstallSuccess(access.team.name || access.team.id));
+    } catch (error) {
+      console.error("Slack install failed:", error);
+      res
+        .status(502)
+        .send(renderInstallError(error instanceof Error ? error.message : "Unknown error"));
+    }
+  }
+
+  /**
+   * Exchange an authorization code for tokens
+   */
+  private async exchangeCode(
+    code: string,
+    redirectUri: string
+  ): Promise<SlackResponse> {
+    const res = await fetch("https://slack.com/api/oauth.v2.access", {
+      method: "POST",
+      body: new URLSearchParams({
+        client_id: process.env.SLACK_CLIENT_ID || "",
+        client_secret: process.env.SLACK_CLIENT_SECRET || "",
+        code,
+        redirect_uri: redirectUri,
+      }),
+    });
+    return res.json() as Promise<SlackResponse>;
+  }
+
+  /**
+   * The redirect URL registered with Slack (SLACK_REDIRECT_URI), or this
+   * server's /slack/oauth_redirect
+   */
+  private redirectUri(req: Request): string {
+    return (
+      process.env.SLACK_REDIRECT_URI ||
+      `${req.protocol}://${req.get("host")}/slack/oauth_redirect`
+    );
+  }
+
+  private signState(nonce: string, issuedAt: number): string {
+    const payload = `${nonce}.${issuedAt}`;
+    const signature = crypto
+      .createHmac("sha256", process.env.SLACK_CLIENT_SECRET || "")
+      .update(payload)
+      .digest("hex");
+    return `${payload}.${signature}`;
+  }
+
+  /**
+   * Check the state's signature and age, and that it belongs to this browser
+   */
+  private verifyState(state: string, cookieNonce: string | undefined): boolean {
+    const [nonce, issuedAt] = state.split(".");
+    if (!nonce || !issuedAt || nonce !== cookieNonce) {
+      return false;
+    }
+    if (Date.now() - Number(issuedAt) > STATE_TTL_MS) {
+      return false;
+    }
+    const expected = this.signState(nonce, Number(issuedAt));
+    return (
+      expected.length === state.length &&
+      crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(state))
+    );
+  }
+}
+
+/**
+ * Read a cookie from the request without a cookie-parsing middleware
+ */
+function readCookie(req: Request, name: string): string | undefined {
+  for (const part of (req.headers.cookie || "").split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) {
+      return decodeURIComponent(value.join("="));
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,42 @@
+import "dotenv/config"
+import { promises as fs } from "fs"
+import path from "path"
+import { createDecisionRepository } from "../services/decisionRepository"
+import { ADR_INDEX_FILE, adrFileName, renderAdr, renderAdrIndex } from "../utils/adrMarkdown"
+
+/**
+ * Export the decision log as numbered Markdown ADRs plus an index file
+ * Usage: npm run export-adrs -- [directory]   (default: docs/adr)
+ */
+async function exportAdrs() {
+	const directory = path.resolve(process.argv[2] || "docs/adr")
+	const repository = createDecisionRepository()
+
+	console.log("📥 Reading decisions from the decision store...")
+	const decisions = await repository.getAllDecisions()
+
+	// Number in the order decisions were logged so numbers stay stable
+	const ordered = [...decisions].sort((a, b) =>
+		(a.date_timestamp || "").localeCompare(b.date_timestamp || "") ||
+		a.title.localeCompare(b.title),
+	)
+
+	await fs.mkdir(directory, { recursive: true })
+	const records = ordered.map((decision, index) => ({
+		number: index + 1,
+		fileName: adrFileName(index + 1, decision.title),
+		decision,
+	}))
+
+	for (const { number, fileName, decision } of records) {
+		await fs.writeFile(path.join(directory, fileName), renderAdr(number, decision), "utf8")
+	}
+	await fs.writeFile(path.join(directory, ADR_INDEX_FILE), renderAdrIndex(records), "utf8")
+
+	console.log(`✅ Exported ${records.length} decisions to ${directory}`)
+}
+
+exportAdrs().catch((error) => {
+	console.error("❌ ADR export failed:", error)
+	process.exit(1)
+})
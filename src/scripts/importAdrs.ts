@@ -0,0 +1,94 @@
+import "dotenv/config"
+import { promises as fs } from "fs"
+import path from "path"
+import { createDecisionRepository } from "../services/decisionRepository"
+import { DecisionIndexService } from "../services/decisionIndexService"
+import { TagService } from "../services/tagService"
+import { DecisionFields, DecisionLinks } from "../types"
+import { ADR_INDEX_FILE, parseAdr } from "../utils/adrMarkdown"
+import { tagsOf } from "../utils/tags"
+
+/**
+ * Import a directory of Markdown ADRs into the configured decision store.
+ * Records whose title, summary and tag already exist are skipped. Tags are
+ * mapped onto the workspace's managed vocabulary, and new ones join it.
+ * Usage: npm run import-adrs -- [directory] [team ID]   (default: docs/adr)
+ */
+async function importAdrs() {
+	const directory = path.resolve(process.argv[2] || "docs/adr")
+	const teamId = process.argv[3] || undefined
+	const repository = createDecisionRepository(new DecisionIndexService())
+	const tagService = new TagService()
+
+	const files = (await fs.readdir(directory))
+		.filter((file) => file.endsWith(".md") && file !== ADR_INDEX_FILE)
+		.sort()
+
+	console.log("📥 Reading decisions from the decision store...")
+	const existing = await repository.getAllDecisions()
+	const existingIds = new Map(existing.map((decision) => [keyFor(decision), decision.id]))
+
+	// Exported IDs mapped to IDs in this store, to carry supersede links over
+	const idMap = new Map<string, string>()
+	const imported: Array<DecisionLinks & { id: string }> = []
+	let skipped = 0
+
+	for (const file of files) {
+		const adr = parseAdr(await fs.readFile(path.join(directory, file), "utf8"))
+		if (!adr) {
+			console.warn(`⚠️ Skipping ${file}: no title or Decision section`)
+			skipped++
+			continue
+		}
+
+		const key = keyFor(adr.entry)
+		const existingId = existingIds.get(key)
+		if (existingId) {
+			console.log(`⏭️ Skipping ${file}: already in the store`)
+			if (adr.source_id) idMap.set(adr.source_id, existingId)
+			skipped++
+			continue
+		}
+
+		const { supersedes, superseded_by, ...entry } = adr.entry
+		const tags = await tagService.canonicalize(teamId, tagsOf(entry))
+		const result = await repository.addDecision({ ...entry, tag: tags[0], tags, team_id: teamId })
+		if (!result.success || !result.page_id) {
+			console.error(`❌ Failed to import ${file}: ${result.error}`)
+			continue
+		}
+		await tagService.register(teamId, tags)
+
+		existingIds.set(key, result.page_id)
+		if (adr.source_id) idMap.set(adr.source_id, result.page_id)
+		imported.push({ id: result.page_id, supersedes, superseded_by })
+	}
+
+	// Link imported records once every exported ID has a counterpart here
+	for (const record of imported) {
+		const supersedes = record.supersedes && idMap.get(record.supersedes)
+		const supersededBy = record.superseded_by && idMap.get(record.superseded_by)
+		if (supersedes || supersededBy) {
+			await repository.updateDecision(record.id, {
+				supersedes: supersedes || undefined,
+				superseded_by: supersededBy || undefined,
+			})
+		}
+	}
+
+	console.log(`✅ Imported ${imported.length} decisions, skipped ${skipped}`)
+}
+
+/**
+ * Identity used to detect records that already exist
+ */
+function keyFor(decision: DecisionFields): string {
+	return [decision.title, decision.summary, decision.tag]
+		.map((field) => field.replace(/\s+/g, " ").trim().toLowerCase())
+		.join("\n")
+}
+
+importAdrs().catch((error) => {
+	console.error("❌ ADR import failed:", error)
+	process.exit(1)
+})
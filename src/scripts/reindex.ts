@@ -0,0 +1,48 @@
+import "dotenv/config"
+import { ChannelConfigService } from "../services/channelConfigService"
+import {
+	createDecisionServices,
+	DecisionServices,
+	DecisionServicesPool,
+} from "../services/decisionRepository"
+
+/**
+ * Rebuild the semantic decision index of every store in use: the
+ * configured decision store and any that channels are set to use
+ */
+async function reindex() {
+	const pool = new DecisionServicesPool(createDecisionServices())
+	const targets = (await new ChannelConfigService().storesInUse()).map(({ store, notion_database }) => ({
+		store,
+		notionDatabase: notion_database,
+	}))
+
+	const seen = new Set<DecisionServices>()
+	for (const target of targets) {
+		let services: DecisionServices
+		try {
+			services = pool.get(target)
+		} catch (error) {
+			console.warn(`⚠️ Skipping decision store ${target.store}:`, error)
+			continue
+		}
+		if (seen.has(services)) {
+			continue
+		}
+		seen.add(services)
+
+		const name = target.notionDatabase ? `${target.store} ${target.notionDatabase}` : target.store
+		console.log(`📥 Reading decisions from ${name}...`)
+		const decisions = await services.decisionRepository.getAllDecisions()
+
+		console.log(`🧮 Embedding ${decisions.length} decisions...`)
+		const count = await services.decisionIndex.reindex(decisions)
+
+		console.log(`✅ Decision index of ${name} rebuilt with ${count} decisions`)
+	}
+}
+
+reindex().catch((error) => {
+	console.error("❌ Reindex failed:", error)
+	process.exit(1)
+})
@@ -1,21 +1,116 @@
 import "dotenv/config"
 import express from "express"
-import { healthCheck } from "./routes/health"
+import { captureRawBody } from "./middleware/rawBody"
+import { requireApiToken, requireDashboardLogin } from "./middleware/apiAuth"
+import { ChannelConfigService } from "./services/channelConfigService"
+import { createDecisionServices, DecisionServicesPool } from "./services/decisionRepository"
+import { DigestService } from "./services/digestService"
+import { SlackInstallationService } from "./services/slackInstallationService"
+import { DecisionsApiHandler } from "./routes/decisionsApi"
+import { DashboardHandler } from "./routes/dashboard"
+import { DASHBOARD_PATH } from "./views/dashboard"
+import { healthCheck, healthDetails } from "./routes/health"
 import { SlackEventsHandler } from "./routes/slackEvents"
+import { SlackInteractionsHandler } from "./routes/slackInteractions"
+import { SlackOAuthHandler } from "./routes/slackOAuth"
 
 const app = express()
 
 // Middleware
-app.use(express.json())
+// Keep the raw body of JSON (events) and form-encoded (interactions, slash
+// commands) requests for Slack signature checks
+app.use(express.json({ verify: captureRawBody }))
+app.use(express.urlencoded({ extended: false, verify: captureRawBody }))
 
 // Routes
 app.get("/health", healthCheck)
 
+// Decision stores with their indexes and the revision log, shared by Slack
+// and the REST API: the store set by DECISION_STORE plus any that channels
+// are set to use
+const channelConfig = new ChannelConfigService()
+const decisionStores = new DecisionServicesPool(createDecisionServices())
+
+// The REST API, dashboard and digests read the decisions of every store in use
+const decisionServices = decisionStores.combined(async () =>
+	(await channelConfig.storesInUse()).map(({ store, notion_database }) => ({
+		store,
+		notionDatabase: notion_database,
+	})),
+)
+
+// Workspaces the app is installed in, each with its own tokens
+const slackInstallations = new SlackInstallationService()
+
+// Slack OAuth install flow
+const slackOAuth = new SlackOAuthHandler(slackInstallations)
+app.get("/slack/install", (req, res) => {
+	slackOAuth.install(req, res)
+})
+app.get("/slack/oauth_redirect", (req, res) => {
+	slackOAuth.redirect(req, res)
+})
+
 // Slack events handler
-const slackEventsHandler = new SlackEventsHandler()
+const slackEventsHandler = new SlackEventsHandler(decisionStores, slackInstallations, channelConfig)
 app.post("/slack/events", (req, res) => {
-	slackEventsHandler.handleEvents(req as any, res)
+	slackEventsHandler.handleEvents(req as any, res).catch((error) => {
+		console.error("Unhandled error in Slack events handler:", error)
+		if (!res.headersSent) {
+			res.status(500).send()
+		}
+	})
+})
+
+// Slack interactions handler (Block Kit buttons)
+const slackInteractionsHandler = new SlackInteractionsHandler(slackEventsHandler)
+app.post("/slack/interactions", (req, res) => {
+	slackInteractionsHandler.handleInteractions(req as any, res).catch((error) => {
+		console.error("Unhandled error in Slack interactions handler:", error)
+		if (!res.headersSent) {
+			res.status(500).send()
+		}
+	})
+})
+
+// Decisions REST API (token-protected)
+const decisionsApi = new DecisionsApiHandler(decisionServices)
+app.use("/api", requireApiToken)
+app.get("/api/health", healthDetails)
+app.get("/api/decisions", (req, res) => {
+	decisionsApi.list(req, res)
 })
+app.post("/api/decisions", (req, res) => {
+	decisionsApi.create(req, res)
+})
+app.get("/api/decisions/:id", (req, res) => {
+	decisionsApi.get(req, res)
+})
+app.patch("/api/decisions/:id", (req, res) => {
+	decisionsApi.patch(req, res)
+})
+app.delete("/api/decisions/:id", (req, res) => {
+	decisionsApi.archive(req, res)
+})
+
+// Web dashboard (read-only)
+const dashboard = new DashboardHandler(decisionServices)
+app.use(DASHBOARD_PATH, requireDashboardLogin)
+app.get(DASHBOARD_PATH, (req, res) => {
+	dashboard.list(req, res)
+})
+app.get(`${DASHBOARD_PATH}/timeline`, (req, res) => {
+	dashboard.timeline(req, res)
+})
+app.get(`${DASHBOARD_PATH}/decisions/:id`, (req, res) => {
+	dashboard.detail(req, res)
+})
+
+// Scheduled decision digests (enabled by DIGEST_CHANNEL)
+const digestService = new DigestService(decisionServices, slackInstallations)
+if (digestService.isEnabled()) {
+	digestService.start()
+}
 
 // Start server
 const port = process.env.PORT || 3000
@@ -23,4 +118,4 @@ app.listen(port, () => {
 	console.log(`Server listening on port ${port}`)
 })
 
-export default app
\ No newline at end of file
+export default app
@@ -0,0 +1,207 @@
+import {
+  ChannelConfig,
+  ChannelSettingKey,
+  ChannelSettings,
+  ConfigScope,
+  DecisionStoreKind,
+} from "../types";
+import { DEFAULT_CONFIDENCE_THRESHOLDS } from "../llm";
+import { CONFIGURABLE_ACTIONS } from "../utils/channelConfigCommand";
+import { JsonFileStore } from "../utils/jsonFileStore";
+
+interface ChannelConfigLog {
+  /** Workspace defaults by team ID */
+  workspaces: Record<string, ChannelSettings>;
+  /** Channel settings by "teamId:channelId" */
+  channels: Record<string, ChannelSettings>;
+}
+
+/**
+ * Settings stored at each level for a channel, and the result
+ */
+export interface ChannelConfigLevels {
+  config: ChannelConfig;
+  /** The settings in effect, as stored */
+  settings: ChannelSettings;
+  workspace: ChannelSettings;
+  channel: ChannelSettings;
+}
+
+// Team key for setups that run on env tokens and never see a team ID
+const NO_TEAM = "default";
+
+/**
+ * Per-channel settings: which store a channel writes to, which actions it
+ * allows, its default tag and confidence thresholds. A channel inherits
+ * anything it does not set from its workspace defaults, and those from the
+ * built-in defaults (DECISION_STORE, NOTION_DATABASE and the thresholds in
+ * llm.ts).
+ */
+export class ChannelConfigService {
+  private store: JsonFileStore<ChannelConfigLog>;
+
+  constructor(
+    filePath = process.env.CHANNEL_CONFIG_STORE_PATH ||
+      "data/channel-config.json"
+  ) {
+    this.store = new JsonFileStore<ChannelConfigLog>(filePath, () => ({
+      workspaces: {},
+      channels: {},
+    }));
+  }
+
+  /**
+   * The settings in effect for a channel
+   * @param teamId - Slack team (workspace) ID
+   * @param channel - Slack channel ID
+   * @returns Promise<ChannelConfig>
+   */
+  async resolve(teamId: string | undefined, channel: string): Promise<ChannelConfig> {
+    return (await this.describe(teamId, channel)).config;
+  }
+
+  /**
+   * The settings in effect for a channel, with what is stored at each level
+   * @param teamId - Slack team (workspace) ID
+   * @param channel - Slack channel ID
+   * @returns Promise<ChannelConfigLevels>
+   */
+  async describe(
+    teamId: string | undefined,
+    channel: string
+  ): Promise<ChannelConfigLevels> {
+    const log = await this.store.read();
+    const workspace = log.workspaces[teamId || NO_TEAM] || {};
+    const channelSettings = log.channels[channelKey(teamId, channel)] || {};
+    const settings: ChannelSettings = {
+      ...builtInSettings(),
+      ...withoutUnset(workspace),
+      ...withoutUnset(channelSettings),
+    };
+
+    return {
+      config: {
+        store: settings.store!,
+        notion_database: settings.notion_database,
+        allowed_actions: settings.allowed_actions!,
+        default_tag: settings.default_tag,
+        thresholds: {
+          extraction: settings.extraction_threshold!,
+          update: settings.update_threshold!,
+          summary: settings.summary_threshold!,
+        },
+      },
+      settings,
+      workspace,
+      channel: channelSettings,
+    };
+  }
+
+  /**
+   * Set or clear one setting for a channel or as a workspace default
+   * @param scope - "channel" or "workspace"
+   * @param teamId - Slack team (workspace) ID
+   * @param channel - Slack channel ID
+   * @param key - Setting to change
+   * @param value - New value; undefined clears it so it is inherited again
+   * @returns Promise - The previous value, for undoing the change
+   */
+  async set(
+    scope: ConfigScope,
+    teamId: string | undefined,
+    channel: string,
+    key: ChannelSettingKey,
+    value: ChannelSettings[ChannelSettingKey]
+  ): Promise<ChannelSettings[ChannelSettingKey]> {
+    return this.store.mutate((log) => {
+      const levels = scope === "workspace" ? log.workspaces : log.channels;
+      const levelKey =
+        scope === "workspace" ? teamId || NO_TEAM : channelKey(teamId, channel);
+      const settings = levels[levelKey] || {};
+      const previous = settings[key];
+
+      if (value === undefined) {
+        delete settings[key];
+      } else {
+        Object.assign(settings, { [key]: value });
+      }
+
+      if (Object.keys(settings).length > 0) {
+        levels[levelKey] = settings;
+      } else {
+        delete levels[levelKey];
+      }
+      return previous;
+    });
+  }
+
+  /**
+   * Every decision store a channel is set to write to, for reads and
+   * changes that must reach all stored decisions
+   * @param teamId - Only this workspace's channels ("" for a setup without
+   *   team IDs); all workspaces when omitted
+   * @returns Promise - Distinct store and Notion database pairs
+   */
+  async storesInUse(teamId?: string): Promise<
+    Array<Pick<ChannelConfig, "store" | "notion_database">>
+  > {
+    const log = await this.store.read();
+    const levels: ChannelSettings[] = [];
+    if (teamId === undefined) {
+      levels.push(builtInSettings());
+      for (const workspace of Object.values(log.workspaces)) {
+        levels.push({ ...builtInSettings(), ...withoutUnset(workspace) });
+      }
+    } else {
+      // Channels without settings of their own use the workspace defaults
+      levels.push({
+        ...builtInSettings(),
+        ...withoutUnset(log.workspaces[teamId || NO_TEAM] || {}),
+      });
+    }
+    for (const [key, channelSettings] of Object.entries(log.channels)) {
+      const channelTeam = key.slice(0, key.indexOf(":"));
+      if (teamId !== undefined && channelTeam !== (teamId || NO_TEAM)) {
+        continue;
+      }
+      levels.push({
+        ...builtInSettings(),
+        ...withoutUnset(log.workspaces[channelTeam] || {}),
+        ...withoutUnset(channelSettings),
+      });
+    }
+
+    const stores = new Map<string, Pick<ChannelConfig, "store" | "notion_database">>();
+    for (const { store, notion_database } of levels) {
+      stores.set(`${store}:${store === "notion" ? notion_database || "" : ""}`, {
+        store: store!,
+        notion_database,
+      });
+    }
+    return [...stores.values()];
+  }
+}
+
+function channelKey(teamId: string | undefined, channel: string): string {
+  return `${teamId || NO_TEAM}:${channel}`;
+}
+
+/**
+ * The defaults every workspace starts from
+ */
+function builtInSettings(): ChannelSettings {
+  return {
+    store: (process.env.DECISION_STORE || "notion").toLowerCase() as DecisionStoreKind,
+    notion_database: process.env.NOTION_DATABASE || undefined,
+    allowed_actions: CONFIGURABLE_ACTIONS,
+    extraction_threshold: DEFAULT_CONFIDENCE_THRESHOLDS.extraction,
+    update_threshold: DEFAULT_CONFIDENCE_THRESHOLDS.update,
+    summary_threshold: DEFAULT_CONFIDENCE_THRESHOLDS.summary,
+  };
+}
+
+function withoutUnset(settings: ChannelSettings): ChannelSettings {
+  return Object.fromEntries(
+    Object.entries(settings).filter(([, value]) => value !== undefined)
+  );
+}
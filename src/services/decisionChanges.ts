@@ -0,0 +1,112 @@
+import {
+	DecisionFields,
+	DecisionRevision,
+	NotionDatabaseEntry,
+	NotionOperationResult,
+	StoredDecision,
+} from "../types"
+import { pickFields, snapshotOf } from "../utils/decisionSnapshot"
+import { DecisionServices } from "./decisionRepository"
+
+/**
+ * Changes to decisions shared by the Slack handlers and the REST API: each
+ * writes to the store, then records a revision. A revision that fails to
+ * record is only logged, since the change itself went through.
+ */
+
+/**
+ * Where a change came from, as its revision records it
+ */
+export type ChangeContext = Pick<DecisionRevision, "user" | "channel" | "thread_ts" | "thread_url" | "team_id">
+
+/**
+ * Add a decision and record its creation
+ * @param services - Decision store to add to
+ * @param entry - The new decision
+ * @param context - Where the change came from
+ * @returns Promise<NotionOperationResult>
+ */
+export async function createDecision(
+	services: DecisionServices,
+	entry: NotionDatabaseEntry,
+	context: ChangeContext,
+): Promise<NotionOperationResult> {
+	const result = await services.decisionRepository.addDecision(entry)
+	if (result.success && result.page_id) {
+		await recordRevision(services, {
+			...context,
+			decision_id: result.page_id,
+			action: "create",
+			before: {},
+			after: pickFields(entry),
+		})
+	}
+	return result
+}
+
+/**
+ * Update a decision and record the change
+ * @param services - Decision store holding the decision
+ * @param id - Decision ID
+ * @param changes - Fields to change
+ * @param context - Where the change came from
+ * @param previous - The decision before the change, if it was read
+ * @returns Promise<NotionOperationResult>
+ */
+export async function changeDecision(
+	services: DecisionServices,
+	id: string,
+	changes: Partial<NotionDatabaseEntry>,
+	context: ChangeContext,
+	previous?: StoredDecision,
+): Promise<NotionOperationResult> {
+	const result = await services.decisionRepository.updateDecision(id, changes)
+	const after = pickFields(changes)
+	if (result.success && Object.keys(after).length > 0) {
+		await recordRevision(services, {
+			...context,
+			decision_id: id,
+			action: "update",
+			before: previous ? pickFields(previous, Object.keys(after)) : {},
+			after,
+			snapshot: previous ? snapshotOf(previous) : undefined,
+		})
+	}
+	return result
+}
+
+/**
+ * Archive a decision and record its deletion
+ * @param services - Decision store holding the decision
+ * @param decision - The decision, with the fields to keep in its revision
+ * @param context - Where the change came from
+ * @returns Promise<NotionOperationResult>
+ */
+export async function archiveDecision(
+	services: DecisionServices,
+	decision: Pick<StoredDecision, "id"> & Partial<DecisionFields>,
+	context: ChangeContext,
+): Promise<NotionOperationResult> {
+	const result = await services.decisionRepository.deleteDecision(decision.id)
+	if (result.success) {
+		await recordRevision(services, {
+			...context,
+			decision_id: decision.id,
+			action: "delete",
+			before: pickFields(decision),
+			after: {},
+		})
+	}
+	return result
+}
+
+async function recordRevision(
+	services: DecisionServices,
+	revision: Omit<DecisionRevision, "id" | "timestamp">,
+): Promise<void> {
+	try {
+		await services.revisionService.recordRevision(revision)
+	} catch (error) {
+		console.error("Failed to record decision revision:", error)
+	}
+}
@@ -0,0 +1,201 @@
+import crypto from "crypto";
+import { StoredDecision } from "../types";
+import { JsonFileStore } from "../utils/jsonFileStore";
+import { tagsOf } from "../utils/tags";
+import {
+  EmbeddingProvider,
+  createEmbeddingProvider,
+} from "./embeddingProvider";
+
+interface IndexEntry {
+  text_hash: string;
+  vector: number[];
+}
+
+interface DecisionIndex {
+  provider: string;
+  entries: Record<string, IndexEntry>;
+}
+
+/**
+ * Local vector index of decisions used to pick the top-k candidates that
+ * are sent to the LLM instead of the whole decision database
+ */
+export class DecisionIndexService {
+  private store: JsonFileStore<DecisionIndex>;
+  private provider: EmbeddingProvider;
+  private topK: number;
+
+  constructor(
+    provider: EmbeddingProvider = createEmbeddingProvider(),
+    filePath = process.env.DECISION_INDEX_PATH || "data/decision-index.json",
+    topK = Number(process.env.DECISION_INDEX_TOP_K) || 20
+  ) {
+    this.provider = provider;
+    this.topK = topK;
+    this.store = new JsonFileStore<DecisionIndex>(filePath, () => ({
+      provider: provider.id,
+      entries: {},
+    }));
+  }
+
+  /**
+   * Add or refresh a decision in the index
+   * @param decision - The decision to index
+   */
+  async upsert(decision: StoredDecision): Promise<void> {
+    const [vector] = await this.provider.embed([this.textFor(decision)]);
+    await this.store.mutate((index) => {
+      this.resetIfProviderChanged(index);
+      index.entries[decision.id] = {
+        text_hash: this.hashFor(decision),
+        vector,
+      };
+    });
+  }
+
+  /**
+   * Remove a decision from the index
+   * @param id - The decision ID
+   */
+  async remove(id: string): Promise<void> {
+    await this.store.mutate((index) => {
+      delete index.entries[id];
+    });
+  }
+
+  /**
+   * Rebuild the whole index from the given decisions
+   * @param decisions - Every decision in the store
+   * @returns Promise<number> - Number of decisions indexed
+   */
+  async reindex(decisions: StoredDecision[]): Promise<number> {
+    const vectors = await this.provider.embed(
+      decisions.map((decision) => this.textFor(decision))
+    );
+    await this.store.mutate((index) => {
+      index.provider = this.provider.id;
+      index.entries = {};
+      decisions.forEach((decision, i) => {
+        index.entries[decision.id] = {
+          text_hash: this.hashFor(decision),
+          vector: vectors[i],
+        };
+      });
+    });
+    console.log(`Reindexed ${decisions.length} decisions`);
+    return decisions.length;
+  }
+
+  /**
+   * Pick the decisions most similar to a query. Decisions that are missing
+   * from the index or changed outside the bot are embedded on the fly.
+   * @param query - Text to match (e.g. the thread or a new decision)
+   * @param decisions - Candidate decisions from the store
+   * @param k - How many to return (defaults to DECISION_INDEX_TOP_K)
+   * @returns Promise<StoredDecision[]> - Best matches first
+   */
+  async findCandidates(
+    query: string,
+    decisions: StoredDecision[],
+    k = this.topK
+  ): Promise<StoredDecision[]> {
+    if (decisions.length <= k) {
+      return decisions;
+    }
+
+    try {
+      const ranked = await this.rank(query, decisions, k);
+      console.log(
+        `Selected ${ranked.length} of ${decisions.length} decisions from the index`
+      );
+      return ranked;
+    } catch (error) {
+      console.error("Decision index lookup failed, using all decisions:", error);
+      return decisions;
+    }
+  }
+
+  /**
+   * Rank decisions by similarity to a query, even when there are only a few
+   * @param query - Text to match
+   * @param decisions - Decisions to rank
+   * @param k - How many to return
+   * @returns Promise<StoredDecision[]> - Best matches first
+   */
+  async rank(
+    query: string,
+    decisions: StoredDecision[],
+    k = this.topK
+  ): Promise<StoredDecision[]> {
+    if (decisions.length === 0) {
+      return [];
+    }
+
+    const entries = await this.ensureIndexed(decisions);
+    const [queryVector] = await this.provider.embed([query]);
+
+    return decisions
+      .map((decision) => ({
+        decision,
+        score: dot(queryVector, entries[decision.id].vector),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k)
+      .map(({ decision }) => decision);
+  }
+
+  private async ensureIndexed(
+    decisions: StoredDecision[]
+  ): Promise<Record<string, IndexEntry>> {
+    const index = await this.store.read();
+    const current = index.provider === this.provider.id ? index.entries : {};
+    const stale = decisions.filter(
+      (decision) => current[decision.id]?.text_hash !== this.hashFor(decision)
+    );
+
+    if (stale.length === 0) {
+      return current;
+    }
+
+    const vectors = await this.provider.embed(
+      stale.map((decision) => this.textFor(decision))
+    );
+    return this.store.mutate((index) => {
+      this.resetIfProviderChanged(index);
+      stale.forEach((decision, i) => {
+        index.entries[decision.id] = {
+          text_hash: this.hashFor(decision),
+          vector: vectors[i],
+        };
+      });
+      return index.entries;
+    });
+  }
+
+  private resetIfProviderChanged(index: DecisionIndex): void {
+    if (index.provider !== this.provider.id) {
+      index.provider = this.provider.id;
+      index.entries = {};
+    }
+  }
+
+  private textFor(decision: StoredDecision): string {
+    return `${decision.title}\n${decision.summary}\n${tagsOf(decision).join(", ")}`;
+  }
+
+  private hashFor(decision: StoredDecision): string {
+    return crypto
+      .createHash("sha1")
+      .update(this.textFor(decision))
+      .digest("hex");
+  }
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
@@ -0,0 +1,224 @@
+import {
+	DecisionRepository,
+	DecisionStoreKind,
+	NotionDatabaseEntry,
+	NotionOperationResult,
+	StoredDecision,
+} from "../types"
+import { NotionService } from "./notionService"
+import { FileDecisionService } from "./fileDecisionService"
+import { DecisionIndexService } from "./decisionIndexService"
+import { IndexedDecisionRepository } from "./indexedDecisionRepository"
+import { RevisionService } from "./revisionService"
+
+/**
+ * The decision services every entry point (Slack, REST API) works through
+ */
+export interface DecisionServices {
+	decisionRepository: DecisionRepository
+	decisionIndex: DecisionIndexService
+	revisionService: RevisionService
+}
+
+/**
+ * Which decision store to use, and for Notion, which database
+ */
+export interface DecisionTarget {
+	store: DecisionStoreKind | string
+	notionDatabase?: string
+}
+
+/**
+ * The target selected by DECISION_STORE and NOTION_DATABASE
+ */
+export function defaultDecisionTarget(): DecisionTarget {
+	return {
+		store: (process.env.DECISION_STORE || "notion").toLowerCase(),
+		notionDatabase: process.env.NOTION_DATABASE || undefined,
+	}
+}
+
+/**
+ * Create the decision store selected by DECISION_STORE ("notion" or "file")
+ * @param index - Semantic index to keep in step with the store, if any
+ * @param target - Store to create; defaults to the env configuration
+ * @returns The configured decision repository
+ */
+export function createDecisionRepository(
+	index?: DecisionIndexService,
+	target: DecisionTarget = defaultDecisionTarget(),
+): DecisionRepository {
+	let repository: DecisionRepository
+	switch (target.store) {
+		case "notion":
+			repository = new NotionService(target.notionDatabase)
+			break
+		case "file":
+			repository = new FileDecisionService()
+			break
+		default:
+			throw new Error(`Unknown DECISION_STORE: ${target.store}`)
+	}
+
+	return index ? new IndexedDecisionRepository(repository, index) : repository
+}
+
+/**
+ * Create the configured decision store with its semantic index and
+ * revision log. Create once and share, since the local stores serialize
+ * writes per instance.
+ * @returns DecisionServices
+ */
+export function createDecisionServices(): DecisionServices {
+	const decisionIndex = new DecisionIndexService()
+	return {
+		decisionIndex,
+		decisionRepository: createDecisionRepository(decisionIndex),
+		revisionService: new RevisionService(),
+	}
+}
+
+function targetKey(target: DecisionTarget): string {
+	return target.store === "notion"
+		? `notion-${(target.notionDatabase || "").replace(/-/g, "").toLowerCase()}`
+		: target.store
+}
+
+/**
+ * Decision services for each store a channel can write to, created on first
+ * use and then shared. Every target gets its own semantic index; the
+ * revision log is shared, so history and digests cover all of them.
+ */
+export class DecisionServicesPool {
+	readonly defaults: DecisionServices
+	private services = new Map<string, DecisionServices>()
+	private revisionService: RevisionService
+
+	/**
+	 * @param defaults - Services for the env-configured store
+	 */
+	constructor(defaults: DecisionServices) {
+		this.defaults = defaults
+		this.services.set(targetKey(defaultDecisionTarget()), defaults)
+		this.revisionService = defaults.revisionService
+	}
+
+	/**
+	 * Get the services for a target
+	 * @param target - Store and Notion database
+	 * @returns DecisionServices
+	 * @throws When the store is unknown or not configured (e.g. no Notion key)
+	 */
+	get(target: DecisionTarget): DecisionServices {
+		const key = targetKey(target)
+		let services = this.services.get(key)
+		if (!services) {
+			const indexPath = (process.env.DECISION_INDEX_PATH || "data/decision-index.json").replace(
+				/(\.json)?$/,
+				`.${key}.json`,
+			)
+			const decisionIndex = new DecisionIndexService(undefined, indexPath)
+			services = {
+				decisionIndex,
+				decisionRepository: createDecisionRepository(decisionIndex, target),
+				revisionService: this.revisionService,
+			}
+			this.services.set(key, services)
+		}
+		return services
+	}
+
+	/**
+	 * Services that read the decisions of every target in use, for readers
+	 * that are not tied to a channel (REST API, dashboard, digests). New
+	 * decisions go to the env-configured store.
+	 * @param targets - Lists the targets in use, e.g. from the channel settings
+	 * @returns DecisionServices
+	 */
+	combined(targets: () => Promise<DecisionTarget[]>): DecisionServices {
+		return {
+			...this.defaults,
+			decisionRepository: new CombinedDecisionRepository(this.defaults.decisionRepository, async () => {
+				const repositories = new Set<DecisionRepository>([this.defaults.decisionRepository])
+				for (const target of await targets()) {
+					try {
+						repositories.add(this.get(target).decisionRepository)
+					} catch (error) {
+						console.warn(`Skipping decision store ${target.store}:`, error)
+					}
+				}
+				return [...repositories]
+			}),
+		}
+	}
+}
+
+/**
+ * Decision repository over several stores. Reads merge them; changes go to
+ * the store that holds the decision, and new decisions to the primary store.
+ */
+export class CombinedDecisionRepository implements DecisionRepository {
+	private primary: DecisionRepository
+	private repositories: () => Promise<DecisionRepository[]>
+
+	/**
+	 * @param primary - Store for new decisions
+	 * @param repositories - Lists every store to read, including the primary
+	 */
+	constructor(primary: DecisionRepository, repositories: () => Promise<DecisionRepository[]>) {
+		this.primary = primary
+		this.repositories = repositories
+	}
+
+	addDecision(entry: NotionDatabaseEntry): Promise<NotionOperationResult> {
+		return this.primary.addDecision(entry)
+	}
+
+	async getAllDecisions(): Promise<StoredDecision[]> {
+		const decisions = new Map<string, StoredDecision>()
+		for (const repository of await this.repositories()) {
+			for (const decision of await repository.getAllDecisions()) {
+				if (!decisions.has(decision.id)) {
+					decisions.set(decision.id, decision)
+				}
+			}
+		}
+		return [...decisions.values()]
+	}
+
+	async getDecision(id: string): Promise<StoredDecision | null> {
+		return (await this.holderOf(id))?.decision || null
+	}
+
+	async updateDecision(id: string, entry: Partial<NotionDatabaseEntry>): Promise<NotionOperationResult> {
+		const holder = await this.holderOf(id)
+		return holder
+			? holder.repository.updateDecision(id, entry)
+			: { success: false, error: `Decision ${id} not found` }
+	}
+
+	async deleteDecision(id: string): Promise<NotionOperationResult> {
+		const holder = await this.holderOf(id)
+		return holder ? holder.repository.deleteDecision(id) : { success: false, error: `Decision ${id} not found` }
+	}
+
+	getDatabaseUrl(): string | undefined {
+		return this.primary.getDatabaseUrl()
+	}
+
+	testConnection(): Promise<boolean> {
+		return this.primary.testConnection()
+	}
+
+	private async holderOf(
+		id: string,
+	): Promise<{ repository: DecisionRepository; decision: StoredDecision } | null> {
+		for (const repository of await this.repositories()) {
+			const decision = await repository.getDecision(id)
+			if (decision) {
+				return { repository, decision }
+			}
+		}
+		return null
+	}
+}
@@ -0,0 +1,439 @@
+import { DecisionRevision, StoredDecision } from "../types";
+import { writeDigestIntro } from "../llm";
+import { JsonFileStore } from "../utils/jsonFileStore";
+import { DecisionServices } from "./decisionRepository";
+import { isLLMFailure } from "./structuredOutput";
+import { SlackInstallationService } from "./slackInstallationService";
+
+type DigestFrequency = "daily" | "weekly";
+
+type DigestChange = "created" | "updated" | "superseded" | "archived";
+
+interface DigestRun {
+  /** End of the last period a digest was claimed for (ISO) */
+  last_period_end?: string;
+  last_posted_at?: string;
+  last_message_ts?: string;
+}
+
+interface DigestState extends DigestRun {
+  /**
+   * Runs by team ID. The top-level fields are from before digests ran per
+   * workspace and seed each workspace's first run.
+   */
+  teams?: Record<string, DigestRun>;
+}
+
+interface DigestEntry {
+  change: DigestChange;
+  title: string;
+  summary: string;
+  tag: string;
+  channel: string;
+  thread_url?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CHANGE_ICONS: Record<DigestChange, string> = {
+  created: "🆕",
+  updated: "✏️",
+  superseded: "🔁",
+  archived: "🗄️",
+};
+
+// Key in DIGEST_CHANNEL for a channel given without a team ID
+const ANY_TEAM = "";
+
+/**
+ * Posts a periodic digest of decision changes to a Slack channel, one per
+ * workspace with only that workspace's changes. Changes come from the
+ * revision log. The end of each workspace's last digested period is stored
+ * on disk and claimed before posting, so a restart never posts a period twice.
+ */
+export class DigestService {
+  private services: DecisionServices;
+  private installations: SlackInstallationService;
+  private state: JsonFileStore<DigestState>;
+  /** Digest channel by team ID; ANY_TEAM for the only or DIGEST_TEAM_ID workspace */
+  private channels: Map<string, string>;
+  private frequency: DigestFrequency;
+  private hour: number;
+  private weekday: number;
+  private timer?: NodeJS.Timeout;
+
+  /**
+   * @param services - Decision services that read every store in use, so
+   *   changed decisions are found wherever they are kept
+   * @param installations - Workspace installations, for each digest's client
+   * @param filePath - Where the digest state is kept
+   */
+  constructor(
+    services: DecisionServices,
+    installations: SlackInstallationService,
+    filePath = process.env.DIGEST_STATE_PATH || "data/digest-state.json"
+  ) {
+    this.services = services;
+    this.installations = installations;
+    this.state = new JsonFileStore<DigestState>(filePath, () => ({}));
+    this.channels = parseDigestChannels(
+      process.env.DIGEST_CHANNEL || "",
+      process.env.DIGEST_TEAM_ID
+    );
+    this.frequency =
+      process.env.DIGEST_FREQUENCY === "daily" ? "daily" : "weekly";
+    this.hour = clamp(Number(process.env.DIGEST_HOUR ?? 9), 0, 23, 9);
+    this.weekday = clamp(Number(process.env.DIGEST_WEEKDAY ?? 1), 0, 6, 1);
+  }
+
+  /**
+   * Whether a digest channel is configured
+   */
+  isEnabled(): boolean {
+    return this.channels.size > 0;
+  }
+
+  /**
+   * Check periodically whether a digest is due
+   * @param intervalMs - How often to check
+   */
+  start(
+    intervalMs = (Number(process.env.DIGEST_CHECK_SECONDS) || 300) * 1000
+  ): void {
+    this.stop();
+    const check = () =>
+      this.runIfDue().catch((error) =>
+        console.error("Decision digest failed:", error)
+      );
+    check();
+    this.timer = setInterval(check, intervalMs);
+    // Don't keep the process alive just for the scheduler
+    this.timer.unref();
+    console.log(
+      `Decision digest scheduled ${this.frequency} at ${this.hour}:00 UTC for ${[...this.channels.values()].join(", ")}`
+    );
+  }
+
+  /**
+   * Stop the scheduler
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Post each workspace's digest for the latest scheduled period if it
+   * hasn't been posted
+   * @param now - Current time
+   * @returns Promise<boolean> - true if this call claimed a period
+   */
+  async runIfDue(now = new Date()): Promise<boolean> {
+    if (!this.isEnabled()) {
+      return false;
+    }
+
+    const teamIds = await this.installations.teamIds();
+    let claimed = false;
+    for (const teamId of teamIds) {
+      const channel =
+        this.channels.get(teamId) ||
+        (teamIds.length === 1 ? this.channels.get(ANY_TEAM) : undefined);
+      if (!channel) {
+        continue;
+      }
+      try {
+        claimed = (await this.runForTeam(teamId, channel, now)) || claimed;
+      } catch (error) {
+        console.error(`Decision digest for team ${teamId} failed:`, error);
+      }
+    }
+    return claimed;
+  }
+
+  /**
+   * Post one workspace's digest for the latest scheduled period if it
+   * hasn't been posted
+   * @param teamId - Slack team (workspace) ID
+   * @param channel - Channel to post to
+   * @param now - Current time
+   * @returns Promise<boolean> - true if this call claimed a period
+   */
+  private async runForTeam(
+    teamId: string,
+    channel: string,
+    now: Date
+  ): Promise<boolean> {
+    const periodEnd = this.latestSlot(now);
+    const claim = await this.state.mutate((state) => {
+      const teams = (state.teams = state.teams || {});
+      const run = (teams[teamId] = teams[teamId] || {
+        last_period_end: state.last_period_end,
+      });
+      if (run.last_period_end && run.last_period_end >= periodEnd.toISOString()) {
+        return null;
+      }
+      const previous = run.last_period_end;
+      run.last_period_end = periodEnd.toISOString();
+      return { previous };
+    });
+
+    if (!claim) {
+      return false;
+    }
+
+    // Cover any periods missed while the bot was down
+    const periodStart = claim.previous
+      ? new Date(claim.previous)
+      : new Date(periodEnd.getTime() - this.periodMs());
+
+    try {
+      const ts = await this.postDigest(teamId, channel, periodStart, periodEnd);
+      await this.state.mutate((state) => {
+        const run = state.teams![teamId];
+        run.last_posted_at = new Date().toISOString();
+        if (ts) {
+          run.last_message_ts = ts;
+        }
+      });
+    } catch (error) {
+      // Release the claim so the next check retries this period
+      await this.state.mutate((state) => {
+        const run = state.teams![teamId];
+        if (run.last_period_end === periodEnd.toISOString()) {
+          run.last_period_end = claim.previous;
+        }
+      });
+      throw error;
+    }
+
+    return true;
+  }
+
+  /**
+   * Build and post a workspace's digest for a period
+   * @param teamId - Slack team (workspace) ID
+   * @param channel - Channel to post to
+   * @param from - Start of the period (inclusive)
+   * @param to - End of the period (exclusive)
+   * @returns Promise<string | undefined> - Message timestamp, or undefined
+   * when nothing changed and no digest was posted
+   */
+  async postDigest(
+    teamId: string,
+    channel: string,
+    from: Date,
+    to: Date
+  ): Promise<string | undefined> {
+    const entries = await this.collectEntries(teamId, from, to);
+    const periodLabel = `${formatDay(from)} – ${formatDay(new Date(to.getTime() - 1))}`;
+
+    if (entries.length === 0) {
+      console.log(`No decision changes in team ${teamId} for ${periodLabel}, skipping digest`);
+      return undefined;
+    }
+
+    const changesText = entries
+      .map(
+        (entry) =>
+          `${entry.change} | ${entry.tag} | ${entry.channel} | ${entry.title}: ${entry.summary}`
+      )
+      .join("\n");
+    const intro = await writeDigestIntro(periodLabel, changesText);
+
+    const counts = (["created", "updated", "superseded", "archived"] as const)
+      .map((change) => ({
+        change,
+        count: entries.filter((entry) => entry.change === change).length,
+      }))
+      .filter(({ count }) => count > 0)
+      .map(({ change, count }) => `${count} ${change}`)
+      .join(" · ");
+
+    const heading = this.frequency === "daily" ? "Daily" : "Weekly";
+    let message = `🗞️ *${heading} decision digest* (${periodLabel})\n`;
+    message += isLLMFailure(intro)
+      ? `${counts}.\n`
+      : `${intro}\n`;
+    message += this.formatEntries(entries);
+    message += `\n_${counts}_`;
+
+    const slack = await this.installations.clientFor(teamId);
+    if (!slack) {
+      throw new Error(`Team ${teamId} is not installed, so its digest can't be posted`);
+    }
+    const response = await slack.apiCall(
+      "chat.postMessage",
+      {
+        channel,
+        text: message,
+        unfurl_links: false,
+      },
+      slack.getBotToken()!
+    );
+
+    console.log(`Posted decision digest for team ${teamId}, ${periodLabel}`);
+    return response.ts;
+  }
+
+  /**
+   * Turn a workspace's revisions of a period into one digest entry per
+   * decision. Changes without a workspace (REST API, revisions from before
+   * workspaces were recorded) only go into single-workspace digests.
+   */
+  private async collectEntries(
+    teamId: string,
+    from: Date,
+    to: Date
+  ): Promise<DigestEntry[]> {
+    const multiWorkspace = this.installations.isMultiWorkspace();
+    const revisions = (
+      await this.services.revisionService.getRevisionsBetween(from, to)
+    ).filter((revision) =>
+      revision.team_id ? revision.team_id === teamId : !multiWorkspace
+    );
+    if (revisions.length === 0) {
+      return [];
+    }
+
+    const decisions = new Map<string, StoredDecision>(
+      (await this.services.decisionRepository.getAllDecisions()).map(
+        (decision) => [decision.id, decision]
+      )
+    );
+
+    const byDecision = new Map<string, DecisionRevision[]>();
+    for (const revision of revisions) {
+      byDecision.set(revision.decision_id, [
+        ...(byDecision.get(revision.decision_id) || []),
+        revision,
+      ]);
+    }
+
+    const entries: DigestEntry[] = [];
+    for (const [decisionId, changes] of byDecision) {
+      const actions = new Set(changes.map((revision) => revision.action));
+      const latest = changes[changes.length - 1];
+      const decision = decisions.get(decisionId);
+      // Archived decisions are gone from the store; use the logged fields
+      const fields = decision || {
+        ...Object.assign({}, ...changes.map((revision) => revision.snapshot || {})),
+        ...Object.assign({}, ...changes.map((revision) => revision.before)),
+        ...Object.assign({}, ...changes.map((revision) => revision.after)),
+      };
+
+      const change: DigestChange = actions.has("delete")
+        ? "archived"
+        : actions.has("create")
+          ? "created"
+          : actions.has("supersede")
+            ? "superseded"
+            : "updated";
+
+      entries.push({
+        change,
+        title: fields.title || "Untitled decision",
+        summary: fields.summary || "",
+        tag: fields.tag || "untagged",
+        channel: decision?.slack_channel
+          ? `#${decision.slack_channel}`
+          : latest.channel && latest.channel !== "api"
+            ? `<#${latest.channel}>`
+            : "Other",
+        thread_url: decision?.slack_thread || latest.thread_url,
+      });
+    }
+
+    return entries;
+  }
+
+  /**
+   * Format entries grouped by channel, then tag
+   */
+  private formatEntries(entries: DigestEntry[]): string {
+    const channels = new Map<string, Map<string, DigestEntry[]>>();
+    for (const entry of entries) {
+      const tags = channels.get(entry.channel) || new Map();
+      tags.set(entry.tag, [...(tags.get(entry.tag) || []), entry]);
+      channels.set(entry.channel, tags);
+    }
+
+    let text = "";
+    for (const [channel, tags] of [...channels].sort(([a], [b]) => a.localeCompare(b))) {
+      text += `\n*${channel}*\n`;
+      for (const [tag, tagEntries] of [...tags].sort(([a], [b]) => a.localeCompare(b))) {
+        text += `_${escapeSlack(tag)}_\n`;
+        for (const entry of tagEntries) {
+          const title = /^https?:\/\//.test(entry.thread_url || "")
+            ? `<${entry.thread_url}|${escapeSlack(entry.title)}>`
+            : `*${escapeSlack(entry.title)}*`;
+          const summary = entry.summary ? ` — ${escapeSlack(entry.summary)}` : "";
+          text += `• ${CHANGE_ICONS[entry.change]} ${title}${summary}\n`;
+        }
+      }
+    }
+    return text;
+  }
+
+  /**
+   * The most recent scheduled digest time at or before now (UTC)
+   */
+  private latestSlot(now: Date): Date {
+    const slot = new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), this.hour)
+    );
+    if (this.frequency === "weekly") {
+      const daysBack = (slot.getUTCDay() - this.weekday + 7) % 7;
+      slot.setTime(slot.getTime() - daysBack * DAY_MS);
+    }
+    if (slot > now) {
+      slot.setTime(slot.getTime() - this.periodMs());
+    }
+    return slot;
+  }
+
+  private periodMs(): number {
+    return this.frequency === "daily" ? DAY_MS : 7 * DAY_MS;
+  }
+}
+
+/**
+ * Parse DIGEST_CHANNEL: comma-separated channel IDs, each optionally
+ * prefixed with its team ID ("T0123:C0456"). A channel without a team
+ * belongs to DIGEST_TEAM_ID, or to the only workspace.
+ */
+function parseDigestChannels(
+  value: string,
+  defaultTeamId?: string
+): Map<string, string> {
+  const channels = new Map<string, string>();
+  for (const item of value.split(",").map((part) => part.trim()).filter(Boolean)) {
+    const [team, channel] = item.includes(":")
+      ? item.split(":", 2)
+      : [defaultTeamId || ANY_TEAM, item];
+    channels.set(team.trim(), channel.trim());
+  }
+  return channels;
+}
+
+function clamp(value: number, min: number, max: number, fallback: number): number {
+  return Number.isInteger(value) && value >= min && value <= max ? value : fallback;
+}
+
+function formatDay(date: Date): string {
+  return date.toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Escape the characters Slack treats as control sequences in mrkdwn
+ */
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
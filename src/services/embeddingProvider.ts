@@ -0,0 +1,101 @@
+import crypto from "crypto";
+import OpenAI from "openai";
+
+/**
+ * Turns text into vectors for the decision index
+ */
+export interface EmbeddingProvider {
+  /** Identifies the provider and model; the index is rebuilt when it changes */
+  readonly id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Deterministic, offline embedding based on hashed word unigrams and
+ * bigrams. No network access, so it is used for tests and local runs.
+ */
+export class HashEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  private dimensions: number;
+
+  constructor(dimensions = 512) {
+    this.dimensions = dimensions;
+    this.id = `hash-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0);
+    const words = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+    const features = [
+      ...words,
+      ...words.slice(1).map((word, i) => `${words[i]} ${word}`),
+    ];
+
+    for (const feature of features) {
+      const digest = crypto.createHash("md5").update(feature).digest();
+      const index = digest.readUInt32LE(0) % this.dimensions;
+      const sign = digest[4] & 1 ? 1 : -1;
+      vector[index] += sign;
+    }
+
+    return normalize(vector);
+  }
+}
+
+/**
+ * Embeddings from any OpenAI-compatible embeddings endpoint
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  private client: OpenAI;
+  private model: string;
+
+  constructor(
+    model = process.env.EMBEDDING_MODEL || "text-embedding-3-small",
+    baseURL = process.env.EMBEDDING_BASE_URL || "https://api.openai.com/v1",
+    apiKey = process.env.EMBEDDING_API_KEY || process.env.OPENAI_API_KEY
+  ) {
+    this.model = model;
+    this.id = `openai:${baseURL}:${model}`;
+    this.client = new OpenAI({ baseURL, apiKey });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts,
+    });
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map((item) => normalize(item.embedding));
+  }
+}
+
+/**
+ * Create the embedding provider selected by EMBEDDING_PROVIDER ("hash" or "openai")
+ * @returns EmbeddingProvider
+ */
+export function createEmbeddingProvider(): EmbeddingProvider {
+  const provider = (process.env.EMBEDDING_PROVIDER || "hash").toLowerCase();
+
+  switch (provider) {
+    case "hash":
+      return new HashEmbeddingProvider();
+    case "openai":
+      return new OpenAIEmbeddingProvider();
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER: ${provider}`);
+  }
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map((v) => v / norm);
+}
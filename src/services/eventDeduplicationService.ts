@@ -0,0 +1,174 @@
+import { JsonFileStore } from "../utils/jsonFileStore";
+
+type EventState = "in_flight" | "done";
+
+interface SeenEvent {
+  state: EventState;
+  expires_at: number;
+}
+
+interface SeenEventLog {
+  events: Record<string, SeenEvent>;
+}
+
+/**
+ * Remembers which Slack events have already been claimed for processing so
+ * retried or duplicated deliveries are acknowledged but not handled twice.
+ * Entries live in a bounded in-memory TTL cache; setting
+ * EVENT_DEDUP_STORE_PATH also persists them so restarts and replicas sharing
+ * the file see the same history; the file is locked while an event is
+ * claimed, so only one replica gets each event.
+ */
+export class EventDeduplicationService {
+  private cache = new Map<string, SeenEvent>();
+  private store?: JsonFileStore<SeenEventLog>;
+  private ttlMs: number;
+  private maxEntries: number;
+
+  constructor(
+    filePath = process.env.EVENT_DEDUP_STORE_PATH,
+    ttlSeconds = Number(process.env.EVENT_DEDUP_TTL_SECONDS) || 60 * 60,
+    maxEntries = Number(process.env.EVENT_DEDUP_MAX_ENTRIES) || 5000
+  ) {
+    this.ttlMs = ttlSeconds * 1000;
+    this.maxEntries = maxEntries;
+    if (filePath) {
+      this.store = new JsonFileStore<SeenEventLog>(filePath, () => ({
+        events: {},
+      }));
+    }
+  }
+
+  /**
+   * Build the dedup keys for an event: its event_id, plus (channel, ts) as a
+   * fallback for deliveries that carry a different or missing event_id
+   * @param eventId - Slack event_id from the envelope
+   * @param channel - Slack channel ID
+   * @param ts - Message timestamp
+   * @returns string[]
+   */
+  static keysFor(eventId?: string, channel?: string, ts?: string): string[] {
+    const keys: string[] = [];
+    if (eventId) {
+      keys.push(`event:${eventId}`);
+    }
+    if (channel && ts) {
+      keys.push(`message:${channel}:${ts}`);
+    }
+    return keys;
+  }
+
+  /**
+   * Claim an event for processing
+   * @param keys - Dedup keys of the event
+   * @returns Promise<EventState | null> - null if the caller now owns the
+   * event, otherwise the state of the earlier delivery
+   */
+  async claim(keys: string[]): Promise<EventState | null> {
+    if (keys.length === 0) {
+      return null;
+    }
+
+    const now = Date.now();
+    this.prune(this.cache, now);
+
+    const cached = this.findSeen(this.cache, keys, now);
+    if (cached) {
+      return cached.state;
+    }
+
+    const entry: SeenEvent = { state: "in_flight", expires_at: now + this.ttlMs };
+
+    if (this.store) {
+      const existing = await this.store.mutate((log) => {
+        this.prune(log.events, now);
+        const seen = this.findSeen(log.events, keys, now);
+        if (seen) {
+          return seen;
+        }
+        for (const key of keys) {
+          log.events[key] = { ...entry };
+        }
+        return null;
+      });
+      if (existing) {
+        this.remember(keys, existing);
+        return existing.state;
+      }
+    }
+
+    this.remember(keys, entry);
+    return null;
+  }
+
+  /**
+   * Mark a claimed event as fully processed
+   * @param keys - Dedup keys of the event
+   */
+  async complete(keys: string[]): Promise<void> {
+    const entry: SeenEvent = { state: "done", expires_at: Date.now() + this.ttlMs };
+    this.remember(keys, entry);
+
+    if (this.store) {
+      await this.store.mutate((log) => {
+        for (const key of keys) {
+          log.events[key] = { ...entry };
+        }
+      });
+    }
+  }
+
+  private findSeen(
+    events: Map<string, SeenEvent> | Record<string, SeenEvent>,
+    keys: string[],
+    now: number
+  ): SeenEvent | undefined {
+    for (const key of keys) {
+      const seen = events instanceof Map ? events.get(key) : events[key];
+      if (seen && seen.expires_at > now) {
+        return seen;
+      }
+    }
+    return undefined;
+  }
+
+  private remember(keys: string[], entry: SeenEvent): void {
+    for (const key of keys) {
+      // Re-insert so Map order stays oldest-first for eviction
+      this.cache.delete(key);
+      this.cache.set(key, { ...entry });
+    }
+    while (this.cache.size > this.maxEntries) {
+      const oldest = this.cache.keys().next().value as string;
+      this.cache.delete(oldest);
+    }
+  }
+
+  private prune(
+    events: Map<string, SeenEvent> | Record<string, SeenEvent>,
+    now: number
+  ): void {
+    if (events instanceof Map) {
+      for (const [key, seen] of events) {
+        if (seen.expires_at <= now) {
+          events.delete(key);
+        }
+      }
+      return;
+    }
+
+    const entries = Object.entries(events).filter(
+      ([, seen]) => seen.expires_at > now
+    );
+    for (const key of Object.keys(events)) {
+      delete events[key];
+    }
+    // Keep the persisted log bounded as well, dropping the oldest entries
+    entries
+      .sort(([, a], [, b]) => a.expires_at - b.expires_at)
+      .slice(-this.maxEntries)
+      .forEach(([key, seen]) => {
+        events[key] = seen;
+      });
+  }
+}
@@ -0,0 +1,228 @@
+import crypto from "crypto";
+import {
+  DecisionRepository,
+  NotionDatabaseEntry,
+  NotionOperationResult,
+  StoredDecision,
+} from "../types";
+import { clearsField, RECORD_FIELD_KEYS } from "../utils/decisionSnapshot";
+import { JsonFileStore } from "../utils/jsonFileStore";
+
+interface FileDecisionRecord extends NotionDatabaseEntry {
+  id: string;
+  archived: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+interface FileDecisionStore {
+  decisions: FileDecisionRecord[];
+}
+
+/**
+ * Decision storage backed by a local JSON file. Used for offline runs
+ * (staging, tests) where no Notion workspace is available.
+ */
+export class FileDecisionService implements DecisionRepository {
+  private store: JsonFileStore<FileDecisionStore>;
+
+  constructor(filePath = process.env.DECISION_STORE_PATH || "data/decisions.json") {
+    this.store = new JsonFileStore<FileDecisionStore>(filePath, () => ({
+      decisions: [],
+    }));
+  }
+
+  /**
+   * Add a decision entry to the file store
+   * @param entry - The decision data to add
+   * @returns Promise<NotionOperationResult>
+   */
+  async addDecision(
+    entry: NotionDatabaseEntry
+  ): Promise<NotionOperationResult> {
+    try {
+      const now = new Date().toISOString();
+      const record: FileDecisionRecord = {
+        ...entry,
+        id: crypto.randomUUID(),
+        archived: false,
+        created_at: now,
+        updated_at: now,
+      };
+
+      await this.store.mutate((store) => {
+        store.decisions.push(record);
+      });
+
+      console.log("✅ Decision added successfully to file store");
+      return { success: true, page_id: record.id };
+    } catch (error) {
+      console.error("Error adding decision to file store:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Retrieve all non-archived decisions from the file store
+   * @returns Promise<StoredDecision[]>
+   */
+  async getAllDecisions(): Promise<StoredDecision[]> {
+    try {
+      const store = await this.store.read();
+      const decisions = store.decisions
+        .filter((record) => !record.archived)
+        .map((record) => this.toStoredDecision(record));
+
+      console.log(
+        `Retrieved ${decisions.length} existing decisions from file store`
+      );
+      return decisions;
+    } catch (error) {
+      console.error("Error retrieving decisions from file store:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Retrieve a single non-archived decision by ID
+   * @param id - The ID of the decision
+   * @returns Promise<StoredDecision | null>
+   */
+  async getDecision(id: string): Promise<StoredDecision | null> {
+    try {
+      const store = await this.store.read();
+      const record = store.decisions.find((d) => d.id === id && !d.archived);
+      if (!record) {
+        return null;
+      }
+      return this.toStoredDecision(record);
+    } catch (error) {
+      console.error("Error retrieving decision from file store:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Update an existing decision in the file store
+   * @param id - The ID of the decision to update
+   * @param entry - The updated decision data
+   * @returns Promise<NotionOperationResult>
+   */
+  async updateDecision(
+    id: string,
+    entry: Partial<NotionDatabaseEntry>
+  ): Promise<NotionOperationResult> {
+    try {
+      await this.store.mutate((store) => {
+        const record = this.findActive(store, id);
+        // Only overwrite fields that were provided, mirroring the Notion service
+        const provided: Partial<NotionDatabaseEntry> = Object.fromEntries(
+          Object.entries(entry).filter(([, value]) => value && !clearsField(value))
+        );
+        Object.assign(record, provided, {
+          updated_at: new Date().toISOString(),
+        });
+        for (const key of RECORD_FIELD_KEYS) {
+          if (clearsField(entry[key])) {
+            delete record[key];
+          }
+        }
+      });
+
+      console.log("✅ Decision updated successfully in file store");
+      return { success: true, page_id: id };
+    } catch (error) {
+      console.error("Error updating decision in file store:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Archive a decision in the file store
+   * @param id - The ID of the decision to archive
+   * @returns Promise<NotionOperationResult>
+   */
+  async deleteDecision(id: string): Promise<NotionOperationResult> {
+    try {
+      await this.store.mutate((store) => {
+        const record = this.findActive(store, id);
+        record.archived = true;
+        record.updated_at = new Date().toISOString();
+      });
+
+      console.log("✅ Decision archived successfully in file store");
+      return { success: true, page_id: id };
+    } catch (error) {
+      console.error("Error archiving decision in file store:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * The file store has no browsable URL
+   */
+  getDatabaseUrl(): string | undefined {
+    return undefined;
+  }
+
+  /**
+   * Check that the store file can be read (or created)
+   * @returns Promise<boolean>
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.store.read();
+      return true;
+    } catch (error) {
+      console.error("File store check failed:", error);
+      return false;
+    }
+  }
+
+  private toStoredDecision(record: FileDecisionRecord): StoredDecision {
+    const { id, title, summary, tag, status, context, rationale } = record;
+    const { slack_thread, slack_channel, team_id, date_timestamp } = record;
+    const { alternatives, consequences, owner, decision_date } = record;
+    const { decided_by, participants, tags } = record;
+    const { supersedes, superseded_by } = record;
+    return {
+      id,
+      title,
+      summary,
+      tag,
+      slack_thread,
+      slack_channel,
+      team_id,
+      date_timestamp,
+      status,
+      context,
+      rationale,
+      alternatives,
+      consequences,
+      owner,
+      decision_date,
+      decided_by,
+      participants,
+      tags,
+      supersedes,
+      superseded_by,
+    };
+  }
+
+  private findActive(store: FileDecisionStore, id: string): FileDecisionRecord {
+    const record = store.decisions.find((d) => d.id === id && !d.archived);
+    if (!record) {
+      throw new Error(`Decision ${id} not found`);
+    }
+    return record;
+  }
+}
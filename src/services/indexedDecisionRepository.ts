@@ -0,0 +1,80 @@
+import {
+  DecisionRepository,
+  NotionDatabaseEntry,
+  NotionOperationResult,
+  StoredDecision,
+} from "../types";
+import { DecisionIndexService } from "./decisionIndexService";
+
+/**
+ * Decision repository wrapper that keeps the semantic index in step with
+ * every add, update and delete. Index failures are logged, never surfaced:
+ * the store stays the source of truth and the index heals on lookup.
+ */
+export class IndexedDecisionRepository implements DecisionRepository {
+  private inner: DecisionRepository;
+  private index: DecisionIndexService;
+
+  constructor(inner: DecisionRepository, index: DecisionIndexService) {
+    this.inner = inner;
+    this.index = index;
+  }
+
+  async addDecision(
+    entry: NotionDatabaseEntry
+  ): Promise<NotionOperationResult> {
+    const result = await this.inner.addDecision(entry);
+    if (result.success && result.page_id) {
+      await this.reindexOne({ ...entry, id: result.page_id });
+    }
+    return result;
+  }
+
+  getAllDecisions(): Promise<StoredDecision[]> {
+    return this.inner.getAllDecisions();
+  }
+
+  getDecision(id: string): Promise<StoredDecision | null> {
+    return this.inner.getDecision(id);
+  }
+
+  async updateDecision(
+    id: string,
+    entry: Partial<NotionDatabaseEntry>
+  ): Promise<NotionOperationResult> {
+    const result = await this.inner.updateDecision(id, entry);
+    if (result.success) {
+      const updated = await this.inner.getDecision(id);
+      if (updated) {
+        await this.reindexOne(updated);
+      }
+    }
+    return result;
+  }
+
+  async deleteDecision(id: string): Promise<NotionOperationResult> {
+    const result = await this.inner.deleteDecision(id);
+    if (result.success) {
+      await this.index
+        .remove(id)
+        .catch((error) => console.error("Failed to remove decision from index:", error));
+    }
+    return result;
+  }
+
+  getDatabaseUrl(): string | undefined {
+    return this.inner.getDatabaseUrl();
+  }
+
+  testConnection(): Promise<boolean> {
+    return this.inner.testConnection();
+  }
+
+  private async reindexOne(decision: StoredDecision): Promise<void> {
+    try {
+      await this.index.upsert(decision);
+    } catch (error) {
+      console.error("Failed to update decision index:", error);
+    }
+  }
+}
@@ -0,0 +1,224 @@
+import { readFileSync } from "fs";
+import OpenAI from "openai";
+
+/**
+ * The kinds of LLM calls the bot makes. Each task can use its own model
+ * and provider.
+ */
+export type LLMTask =
+  | "intent"
+  | "extraction"
+  | "comparison"
+  | "related"
+  | "update"
+  | "summary"
+  | "digest"
+  | "condense";
+
+export const LLM_TASKS: LLMTask[] = [
+  "intent",
+  "extraction",
+  "comparison",
+  "related",
+  "update",
+  "summary",
+  "digest",
+  "condense",
+];
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LLMRequest {
+  task: LLMTask;
+  model: string;
+  messages: ChatMessage[];
+  json: boolean;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: LLMRequest): Promise<string>;
+}
+
+interface TaskConfig {
+  provider: string;
+  model: string;
+  baseURL: string;
+  apiKey?: string;
+}
+
+const DEFAULT_MODEL = "openai/gpt-5-mini";
+const DEFAULT_TASK_MODELS: Partial<Record<LLMTask, string>> = {
+  comparison: "openai/gpt-4o-mini",
+  condense: "openai/gpt-4o-mini",
+};
+const DEFAULT_BASE_URL = "https://openrouter.ai/api/v1";
+
+/**
+ * Provider for any OpenAI-compatible chat completions API (OpenRouter,
+ * OpenAI, or a local server such as Ollama or vLLM)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  private client: OpenAI;
+
+  constructor(baseURL: string, apiKey?: string) {
+    this.name = `openai-compatible:${baseURL}`;
+    this.client = new OpenAI({
+      baseURL,
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: apiKey || "not-needed",
+      defaultHeaders: {
+        "HTTP-Referer": process.env.DOMAIN, // Your site URL
+        "X-Title": "Decision Bot", // Your site name
+      },
+    });
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    const resp = await this.client.chat.completions.create({
+      model: request.model,
+      ...(request.json ? { response_format: { type: "json_object" as const } } : {}),
+      messages: request.messages,
+    });
+
+    const content = resp.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error("No content received from LLM");
+    }
+    return content;
+  }
+}
+
+type ScriptedResponse = string | ((request: LLMRequest) => string);
+
+/**
+ * Fake provider that answers from a script instead of a model. Responses
+ * for a task are returned in order; the last one repeats once the list is
+ * used up. Every request is kept in `calls` for assertions.
+ */
+export class ScriptedLLMProvider implements LLMProvider {
+  readonly name = "scripted";
+  readonly calls: LLMRequest[] = [];
+  private script: Partial<Record<LLMTask, ScriptedResponse[]>>;
+  private cursor: Partial<Record<LLMTask, number>> = {};
+
+  constructor(script: Partial<Record<LLMTask, ScriptedResponse | ScriptedResponse[]>>) {
+    this.script = {};
+    for (const [task, responses] of Object.entries(script)) {
+      this.script[task as LLMTask] = Array.isArray(responses)
+        ? responses
+        : [responses as ScriptedResponse];
+    }
+  }
+
+  /**
+   * Load a script from a JSON file mapping each task to a response
+   * (an object or string) or a list of responses
+   * @param filePath - Path to the script file
+   * @returns ScriptedLLMProvider
+   */
+  static fromFile(filePath: string): ScriptedLLMProvider {
+    const raw = JSON.parse(readFileSync(filePath, "utf8")) as Record<string, unknown>;
+    const script: Partial<Record<LLMTask, string[]>> = {};
+    for (const [task, value] of Object.entries(raw)) {
+      const responses = Array.isArray(value) ? value : [value];
+      script[task as LLMTask] = responses.map((response) =>
+        typeof response === "string" ? response : JSON.stringify(response)
+      );
+    }
+    return new ScriptedLLMProvider(script);
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    this.calls.push(request);
+    const responses = this.script[request.task];
+    if (!responses || responses.length === 0) {
+      throw new Error(`No scripted response for task "${request.task}"`);
+    }
+
+    const index = Math.min(this.cursor[request.task] ?? 0, responses.length - 1);
+    this.cursor[request.task] = index + 1;
+    const response = responses[index];
+    return typeof response === "function" ? response(request) : response;
+  }
+}
+
+const providers = new Map<string, LLMProvider>();
+let providerOverride: LLMProvider | null = null;
+
+/**
+ * Route every task to the given provider (e.g. a ScriptedLLMProvider in
+ * tests). Pass null to go back to the configured providers.
+ * @param provider - Provider to use for all tasks
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  providerOverride = provider;
+}
+
+/**
+ * Resolve the configuration of a task. LLM_<SETTING>_<TASK> overrides the
+ * global LLM_<SETTING>, e.g. LLM_MODEL_COMPARISON over LLM_MODEL.
+ * @param task - The LLM task
+ * @returns TaskConfig
+ */
+export function getTaskConfig(task: LLMTask): TaskConfig {
+  const setting = (name: string) =>
+    process.env[`LLM_${name}_${task.toUpperCase()}`] || process.env[`LLM_${name}`];
+
+  return {
+    provider: (setting("PROVIDER") || "openai").toLowerCase(),
+    model: setting("MODEL") || DEFAULT_TASK_MODELS[task] || DEFAULT_MODEL,
+    baseURL: setting("BASE_URL") || DEFAULT_BASE_URL,
+    apiKey: setting("API_KEY") || process.env.OPENROUTER_API_KEY,
+  };
+}
+
+function providerFor(config: TaskConfig): LLMProvider {
+  const key =
+    config.provider === "scripted"
+      ? `scripted:${process.env.LLM_SCRIPT_PATH}`
+      : `${config.provider}:${config.baseURL}:${config.apiKey}`;
+  const cached = providers.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  let provider: LLMProvider;
+  switch (config.provider) {
+    case "openai":
+      provider = new OpenAICompatibleProvider(config.baseURL, config.apiKey);
+      break;
+    case "scripted":
+      if (!process.env.LLM_SCRIPT_PATH) {
+        throw new Error("LLM_SCRIPT_PATH is required for the scripted provider");
+      }
+      provider = ScriptedLLMProvider.fromFile(process.env.LLM_SCRIPT_PATH);
+      break;
+    default:
+      throw new Error(`Unknown LLM provider: ${config.provider}`);
+  }
+
+  providers.set(key, provider);
+  return provider;
+}
+
+/**
+ * Run a chat completion for a task with its configured provider and model
+ * @param task - The LLM task
+ * @param messages - Chat messages
+ * @param options.json - Ask for a JSON object response (default true)
+ * @returns Promise<string> - The response content
+ */
+export async function completeLLM(
+  task: LLMTask,
+  messages: ChatMessage[],
+  { json = true }: { json?: boolean } = {}
+): Promise<string> {
+  const config = getTaskConfig(task);
+  const provider = providerOverride || providerFor(config);
+  return provider.complete({ task, model: config.model, messages, json });
+}
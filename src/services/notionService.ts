@@ -1,17 +1,34 @@
 import "dotenv/config";
 import { Client } from "@notionhq/client";
-import { NotionDatabaseEntry, NotionOperationResult } from "../types";
+import {
+  DECISION_STATUSES,
+  DecisionLinks,
+  DecisionRecordFields,
+  DecisionRepository,
+  DecisionStatus,
+  NotionDatabaseEntry,
+  NotionOperationResult,
+  StoredDecision,
+} from "../types";
+import { clearsField, RECORD_FIELD_KEYS } from "../utils/decisionSnapshot";
+import { tagsOf } from "../utils/tags";
 
 /**
  * Service for interacting with Notion database
  */
-export class NotionService {
+export class NotionService implements DecisionRepository {
   private notion: Client;
   private databaseId: string;
+  private maxDecisions: number;
 
-  constructor() {
+  /**
+   * @param databaseId - Notion database to read and write; defaults to
+   * NOTION_DATABASE
+   */
+  constructor(databaseId = process.env.NOTION_DATABASE || "") {
     const apiKey = process.env.NOTION_API_KEY;
-    this.databaseId = process.env.NOTION_DATABASE || "";
+    this.databaseId = databaseId;
+    this.maxDecisions = Number(process.env.NOTION_MAX_DECISIONS) || 5000;
 
     if (!apiKey) {
       throw new Error("NOTION_API_KEY environment variable is required");
@@ -70,27 +87,10 @@ export class NotionService {
       const tagProperty = database.properties.tag || database.properties.tags;
       if (tagProperty) {
         const tagPropertyName = database.properties.tag ? "tag" : "tags";
-        
-        if (tagProperty.type === "rich_text") {
-          properties[tagPropertyName] = {
-            rich_text: [{ text: { content: entry.tag } }],
-          };
-        } else if (tagProperty.type === "select") {
-          // Handle select type for tags
-          properties[tagPropertyName] = {
-            select: { name: entry.tag },
-          };
-        } else if (tagProperty.type === "multi_select") {
-          // Handle multi-select type for tags
-          properties[tagPropertyName] = {
-            multi_select: [{ name: entry.tag }],
-          };
-        } else {
-          // Fallback to rich_text
-          properties[tagPropertyName] = {
-            rich_text: [{ text: { content: entry.tag } }],
-          };
-        }
+        properties[tagPropertyName] = this.buildTagProperty(
+          tagProperty,
+          tagsOf(entry)
+        );
       }
 
       // Handle slack_thread property
@@ -107,6 +107,13 @@ export class NotionService {
         };
       }
 
+      // Handle team_id property
+      if (entry.team_id && database.properties.team_id) {
+        properties.team_id = {
+          rich_text: [{ text: { content: entry.team_id } }],
+        };
+      }
+
       // Handle date_timestamp property (only if it exists and is a date type)
       if (
         database.properties.date_timestamp &&
@@ -117,6 +124,12 @@ export class NotionService {
         };
       }
 
+      // Decision record fields, for whichever properties the database has
+      Object.assign(
+        properties,
+        this.buildRecordProperties(database.properties, entry)
+      );
+
       const response = await this.notion.pages.create({
         parent: {
           database_id: this.databaseId,
@@ -254,29 +267,22 @@ export class NotionService {
   }
 
   /**
-   * Retrieve all existing decisions from the Notion database
-   * @returns Promise<Array<{id: string, title: string, summary: string, tag: string}>>
+   * Retrieve all existing decisions from the Notion database, following
+   * pagination cursors up to NOTION_MAX_DECISIONS
+   * @returns Promise<StoredDecision[]>
    */
-  async getAllDecisions(): Promise<
-    Array<{ id: string; title: string; summary: string; tag: string }>
-  > {
+  async getAllDecisions(): Promise<StoredDecision[]> {
     try {
-      const response = await this.notion.databases.query({
-        database_id: this.databaseId,
-      });
-
-      const decisions = response.results.map((page: any) => {
-        const properties = page.properties;
-        // Check both "tag" and "tags" properties
-        const tagValue = properties.tag?.rich_text?.[0]?.text?.content || 
-                        properties.tags?.rich_text?.[0]?.text?.content || "";
-        return {
-          id: page.id,
-          title: properties.title?.title?.[0]?.text?.content || "",
-          summary: properties.summary?.rich_text?.[0]?.text?.content || "",
-          tag: tagValue,
-        };
-      });
+      const decisions: StoredDecision[] = [];
+      for await (const decision of this.iterateDecisions()) {
+        if (decisions.length >= this.maxDecisions) {
+          console.warn(
+            `Stopped reading decisions at NOTION_MAX_DECISIONS (${this.maxDecisions})`
+          );
+          break;
+        }
+        decisions.push(decision);
+      }
 
       console.log(
         `Retrieved ${decisions.length} existing decisions from Notion database`
@@ -288,6 +294,214 @@ export class NotionService {
     }
   }
 
+  /**
+   * Iterate over every decision in the database, one query page at a time
+   * @param pageSize - Rows per Notion query (max 100)
+   * @returns AsyncGenerator<StoredDecision>
+   */
+  async *iterateDecisions(pageSize = 100): AsyncGenerator<StoredDecision> {
+    let cursor: string | undefined;
+    do {
+      const response = await this.notion.databases.query({
+        database_id: this.databaseId,
+        page_size: pageSize,
+        start_cursor: cursor,
+      });
+
+      for (const page of response.results) {
+        yield this.toStoredDecision(page);
+      }
+
+      cursor = response.has_more ? response.next_cursor ?? undefined : undefined;
+    } while (cursor);
+  }
+
+  /**
+   * Retrieve a single decision by its page ID
+   * @param pageId - The ID of the page to retrieve
+   * @returns Promise<StoredDecision | null> - null if missing or archived
+   */
+  async getDecision(pageId: string): Promise<StoredDecision | null> {
+    try {
+      const page: any = await this.notion.pages.retrieve({ page_id: pageId });
+      if (page.archived || !("properties" in page)) {
+        return null;
+      }
+      return this.toStoredDecision(page);
+    } catch (error) {
+      console.error("Error retrieving decision from Notion:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Map a Notion page onto the stored decision shape
+   * @param page - Notion page with properties
+   * @returns StoredDecision
+   */
+  private toStoredDecision(page: any): StoredDecision {
+    const properties = page.properties;
+    // Check both "tag" and "tags" properties
+    const tagProperty = properties.tag || properties.tags;
+    const tags =
+      tagProperty?.type === "multi_select"
+        ? tagProperty.multi_select.map((option: any) => option.name as string)
+        : readPropertyText(tagProperty).split(/,\s*/).filter(Boolean);
+    const status = readPropertyText(properties.status) as DecisionStatus;
+    const alternatives = readPropertyText(properties.alternatives)
+      .split("\n")
+      .map((line) => line.replace(/^[-•]\s*/, "").trim())
+      .filter(Boolean);
+    const participants = readPropertyText(properties.participants)
+      .split(/,\s*/)
+      .filter(Boolean);
+    return {
+      id: page.id,
+      title: properties.title?.title?.[0]?.text?.content || "",
+      summary: properties.summary?.rich_text?.[0]?.text?.content || "",
+      tag: tags[0] || "",
+      tags: tags.length > 0 ? tags : undefined,
+      slack_thread: readPropertyText(properties.slack_thread) || undefined,
+      slack_channel: readPropertyText(properties.slack_channel) || undefined,
+      team_id: readPropertyText(properties.team_id) || undefined,
+      date_timestamp: readPropertyText(properties.date_timestamp) || undefined,
+      status: DECISION_STATUSES.includes(status) ? status : undefined,
+      context: readPropertyText(properties.context) || undefined,
+      rationale: readPropertyText(properties.rationale) || undefined,
+      alternatives: alternatives.length > 0 ? alternatives : undefined,
+      consequences: readPropertyText(properties.consequences) || undefined,
+      owner: readPropertyText(properties.owner) || undefined,
+      decision_date: readPropertyText(properties.decision_date) || undefined,
+      decided_by: readPropertyText(properties.decided_by) || undefined,
+      participants: participants.length > 0 ? participants : undefined,
+      supersedes: readPropertyText(properties.supersedes) || undefined,
+      superseded_by: readPropertyText(properties.superseded_by) || undefined,
+    };
+  }
+
+  /**
+   * Build the value of the tag property: every tag for a multi_select, the
+   * main tag for a select, the tags as a list otherwise
+   * @param tagProperty - Schema of the tag property
+   * @param tags - Tags, main tag first
+   * @returns Notion property value
+   */
+  private buildTagProperty(tagProperty: any, tags: string[]): Record<string, any> {
+    if (tagProperty.type === "multi_select") {
+      // Notion option names cannot contain commas
+      return {
+        multi_select: tags.map((tag) => ({ name: tag.replace(/,/g, " ") })),
+      };
+    }
+    if (tagProperty.type === "select") {
+      return { select: tags[0] ? { name: tags[0].replace(/,/g, " ") } : null };
+    }
+    return { rich_text: [{ text: { content: tags.join(", ") } }] };
+  }
+
+  /**
+   * Build Notion properties that empty the record fields an update clears.
+   * Status properties cannot be emptied and keep their value.
+   * @param databaseProperties - Property schema of the database
+   * @param entry - Decision changes being written
+   * @returns Notion page properties
+   */
+  private buildClearedProperties(
+    databaseProperties: Record<string, any>,
+    entry: Partial<NotionDatabaseEntry>
+  ): Record<string, any> {
+    const properties: Record<string, any> = {};
+    for (const name of RECORD_FIELD_KEYS) {
+      const property = databaseProperties[name];
+      // Tags are written to the tag property with the main tag
+      if (name === "tags" || !property || !clearsField(entry[name])) {
+        continue;
+      }
+
+      if (property.type === "select") {
+        properties[name] = { select: null };
+      } else if (property.type === "multi_select") {
+        properties[name] = { multi_select: [] };
+      } else if (property.type === "date") {
+        properties[name] = { date: null };
+      } else if (property.type === "rich_text") {
+        properties[name] = { rich_text: [] };
+      }
+    }
+    return properties;
+  }
+
+  /**
+   * Build Notion properties for the decision record fields and supersede
+   * links. Each field is only written when the database has a property of
+   * that name.
+   * @param databaseProperties - Property schema of the database
+   * @param entry - Decision data being written
+   * @returns Notion page properties
+   */
+  private buildRecordProperties(
+    databaseProperties: Record<string, any>,
+    entry: DecisionRecordFields & DecisionLinks
+  ): Record<string, any> {
+    const properties: Record<string, any> = {};
+    const values: Record<keyof DecisionRecordFields, string | undefined> = {
+      status: entry.status,
+      context: entry.context,
+      rationale: entry.rationale,
+      alternatives: entry.alternatives?.join("\n"),
+      consequences: entry.consequences,
+      owner: entry.owner,
+      decision_date: entry.decision_date,
+      decided_by: entry.decided_by,
+      participants: entry.participants?.join(", "),
+      // Written to the tag property with the main tag
+      tags: undefined,
+    };
+
+    // Supersede links point at other pages in the same database
+    for (const name of ["supersedes", "superseded_by"] as const) {
+      const property = databaseProperties[name];
+      const pageId = entry[name];
+      if (!pageId || !property) {
+        continue;
+      }
+      properties[name] =
+        property.type === "relation"
+          ? { relation: [{ id: pageId }] }
+          : { rich_text: [{ text: { content: pageId } }] };
+    }
+
+    for (const [name, value] of Object.entries(values)) {
+      const property = databaseProperties[name];
+      if (!value || !property) {
+        continue;
+      }
+
+      if (property.type === "select") {
+        properties[name] = { select: { name: value } };
+      } else if (property.type === "multi_select") {
+        // Notion option names cannot contain commas
+        properties[name] = {
+          multi_select: value
+            .split(/,\s*/)
+            .filter(Boolean)
+            .map((option) => ({ name: option.slice(0, 100) })),
+        };
+      } else if (property.type === "status") {
+        properties[name] = { status: { name: value } };
+      } else if (property.type === "date") {
+        properties[name] = { date: { start: value } };
+      } else {
+        // Notion caps a single rich text object at 2000 characters
+        properties[name] = {
+          rich_text: [{ text: { content: value.slice(0, 2000) } }],
+        };
+      }
+    }
+
+    return properties;
+  }
+
   /**
    * Update an existing decision in the Notion database
    * @param pageId - The ID of the page to update
@@ -329,29 +543,12 @@ export class NotionService {
 
       // Handle tag property - check both "tag" and "tags"
       const tagProperty = database.properties.tag || database.properties.tags;
-      if (entry.tag && tagProperty) {
+      if ((entry.tag || entry.tags?.length) && tagProperty) {
         const tagPropertyName = database.properties.tag ? "tag" : "tags";
-        
-        if (tagProperty.type === "rich_text") {
-          properties[tagPropertyName] = {
-            rich_text: [{ text: { content: entry.tag } }],
-          };
-        } else if (tagProperty.type === "select") {
-          // Handle select type for tags
-          properties[tagPropertyName] = {
-            select: { name: entry.tag },
-          };
-        } else if (tagProperty.type === "multi_select") {
-          // Handle multi-select type for tags
-          properties[tagPropertyName] = {
-            multi_select: [{ name: entry.tag }],
-          };
-        } else {
-          // Fallback to rich_text
-          properties[tagPropertyName] = {
-            rich_text: [{ text: { content: entry.tag } }],
-          };
-        }
+        properties[tagPropertyName] = this.buildTagProperty(
+          tagProperty,
+          tagsOf(entry)
+        );
       }
 
       // Handle slack_thread property
@@ -379,6 +576,13 @@ export class NotionService {
         };
       }
 
+      // Decision record fields, for whichever properties the database has
+      Object.assign(
+        properties,
+        this.buildRecordProperties(database.properties, entry),
+        this.buildClearedProperties(database.properties, entry)
+      );
+
       const response = await this.notion.pages.update({
         page_id: pageId,
         properties,
@@ -453,3 +657,32 @@ export class NotionService {
     }
   }
 }
+
+/**
+ * Read a Notion property as plain text, whatever its type
+ * @param property - A page property value
+ * @returns string - Empty when unset
+ */
+function readPropertyText(property: any): string {
+  switch (property?.type) {
+    case "select":
+      return property.select?.name || "";
+    case "multi_select":
+      return (property.multi_select || [])
+        .map((option: any) => option.name)
+        .join(", ");
+    case "status":
+      return property.status?.name || "";
+    case "date":
+      return property.date?.start || "";
+    case "relation":
+      return property.relation?.[0]?.id || "";
+    case "title":
+    case "rich_text":
+      return (property[property.type] || [])
+        .map((part: any) => part.plain_text ?? part.text?.content ?? "")
+        .join("");
+    default:
+      return "";
+  }
+}
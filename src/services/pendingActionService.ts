@@ -0,0 +1,162 @@
+import { PendingAction } from "../types";
+import { JsonFileStore } from "../utils/jsonFileStore";
+
+interface PendingActionLog {
+  actions: Record<string, PendingAction>;
+}
+
+/**
+ * Persistent store for actions that wait for a confirmation before being
+ * applied (e.g. deletes). Entries expire after a configurable TTL, and a
+ * sweeper reports expired entries so their threads can be told. Each entry
+ * is removed when it is reported, so replicas sharing the file report it
+ * once between them.
+ */
+export class PendingActionService {
+  private store: JsonFileStore<PendingActionLog>;
+  private ttlMs: number;
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(
+    filePath = process.env.PENDING_ACTION_STORE_PATH || "data/pending-actions.json",
+    ttlMinutes = Number(process.env.PENDING_ACTION_TTL_MINUTES) || 15
+  ) {
+    this.store = new JsonFileStore<PendingActionLog>(filePath, () => ({
+      actions: {},
+    }));
+    this.ttlMs = ttlMinutes * 60 * 1000;
+  }
+
+  /**
+   * Build the key for a pending action of a given type in a thread
+   * @param type - The action type
+   * @param channel - Slack channel ID
+   * @param thread_ts - Slack thread timestamp
+   * @returns string
+   */
+  static keyFor(type: string, channel: string, thread_ts: string): string {
+    return `${type}:${channel}:${thread_ts}`;
+  }
+
+  /**
+   * Store a new pending action, replacing any previous one with the same key
+   * @param action - The action (timestamps are set from the TTL)
+   * @returns Promise<PendingAction<T>>
+   */
+  async create<T>(
+    action: Omit<PendingAction<T>, "created_at" | "expires_at">
+  ): Promise<PendingAction<T>> {
+    const now = Date.now();
+    const stored: PendingAction<T> = {
+      ...action,
+      created_at: now,
+      expires_at: now + this.ttlMs,
+    };
+
+    await this.store.mutate((log) => {
+      log.actions[stored.key] = stored as PendingAction;
+    });
+    return stored;
+  }
+
+  /**
+   * Get a pending action that has not expired
+   * @param key - The action key
+   * @returns Promise<PendingAction<T> | null>
+   */
+  async get<T>(key: string): Promise<PendingAction<T> | null> {
+    const log = await this.store.read();
+    const action = log.actions[key];
+    if (!action || action.expires_at <= Date.now()) {
+      return null;
+    }
+    return action as PendingAction<T>;
+  }
+
+  /**
+   * Merge changes into a pending action (e.g. the confirmation message ts)
+   * @param key - The action key
+   * @param changes - Fields to update
+   */
+  async update(
+    key: string,
+    changes: Partial<Omit<PendingAction, "key">>
+  ): Promise<void> {
+    await this.store.mutate((log) => {
+      if (log.actions[key]) {
+        log.actions[key] = { ...log.actions[key], ...changes };
+      }
+    });
+  }
+
+  /**
+   * Remove and return a pending action. Only one caller can take a given
+   * action, so a confirmation cannot be applied twice.
+   * @param key - The action key
+   * @returns Promise<PendingAction<T> | null> - null if missing or expired
+   */
+  async take<T>(key: string): Promise<PendingAction<T> | null> {
+    return this.store.mutate((log) => {
+      const action = log.actions[key];
+      delete log.actions[key];
+      if (!action || action.expires_at <= Date.now()) {
+        return null;
+      }
+      return action as PendingAction<T>;
+    });
+  }
+
+  /**
+   * Remove every expired action
+   * @returns Promise<PendingAction[]> - The actions that were removed
+   */
+  async sweepExpired(): Promise<PendingAction[]> {
+    const now = Date.now();
+    return this.store.mutate((log) => {
+      const expired = Object.values(log.actions).filter(
+        (action) => action.expires_at <= now
+      );
+      for (const action of expired) {
+        delete log.actions[action.key];
+      }
+      return expired;
+    });
+  }
+
+  /**
+   * Periodically sweep expired actions
+   * @param onExpired - Called for each expired action
+   * @param intervalMs - How often to sweep
+   */
+  startSweeper(
+    onExpired: (action: PendingAction) => Promise<void>,
+    intervalMs = (Number(process.env.PENDING_ACTION_SWEEP_SECONDS) || 60) * 1000
+  ): void {
+    this.stopSweeper();
+    this.sweepTimer = setInterval(async () => {
+      try {
+        const expired = await this.sweepExpired();
+        for (const action of expired) {
+          console.log(`Pending ${action.type} expired: ${action.key}`);
+          await onExpired(action).catch((error) =>
+            console.error("Failed to report expired pending action:", error)
+          );
+        }
+      } catch (error) {
+        console.error("Pending action sweep failed:", error);
+      }
+    }, intervalMs);
+    // Don't keep the process alive just for the sweeper
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Stop the periodic sweeper
+   */
+  stopSweeper(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+  }
+}
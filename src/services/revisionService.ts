@@ -0,0 +1,93 @@
+import crypto from "crypto";
+import { DecisionRevision } from "../types";
+import { JsonFileStore } from "../utils/jsonFileStore";
+
+interface RevisionLog {
+  revisions: DecisionRevision[];
+}
+
+/**
+ * Append-only log of every change made to a decision. Kept locally so it
+ * works the same regardless of which decision store is configured.
+ */
+export class RevisionService {
+  private store: JsonFileStore<RevisionLog>;
+
+  constructor(filePath = process.env.REVISION_STORE_PATH || "data/revisions.json") {
+    this.store = new JsonFileStore<RevisionLog>(filePath, () => ({
+      revisions: [],
+    }));
+  }
+
+  /**
+   * Record a change to a decision
+   * @param revision - The revision details (ID and timestamp are generated)
+   * @returns Promise<DecisionRevision> - The stored revision
+   */
+  async recordRevision(
+    revision: Omit<DecisionRevision, "id" | "timestamp">
+  ): Promise<DecisionRevision> {
+    const stored: DecisionRevision = {
+      ...revision,
+      id: crypto.randomUUID(),
+      timestamp: new Date().toISOString(),
+    };
+
+    await this.store.mutate((log) => {
+      log.revisions.push(stored);
+    });
+
+    console.log(
+      `Recorded ${stored.action} revision for decision ${stored.decision_id}`
+    );
+    return stored;
+  }
+
+  /**
+   * Get the revisions of a decision, oldest first
+   * @param decisionId - The ID of the decision
+   * @returns Promise<DecisionRevision[]>
+   */
+  async getRevisions(decisionId: string): Promise<DecisionRevision[]> {
+    const log = await this.store.read();
+    return log.revisions
+      .filter((revision) => revision.decision_id === decisionId)
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  }
+
+  /**
+   * Get every revision recorded in a time window, oldest first
+   * @param from - Start of the window (inclusive)
+   * @param to - End of the window (exclusive)
+   * @returns Promise<DecisionRevision[]>
+   */
+  async getRevisionsBetween(from: Date, to: Date): Promise<DecisionRevision[]> {
+    const log = await this.store.read();
+    const start = from.toISOString();
+    const end = to.toISOString();
+    return log.revisions
+      .filter((revision) => revision.timestamp >= start && revision.timestamp < end)
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  }
+
+  /**
+   * Get the most recent revision that has a previous version to go back to
+   * @param decisionId - The ID of the decision
+   * @returns Promise<DecisionRevision | null>
+   */
+  async getLatestRevertible(
+    decisionId: string
+  ): Promise<DecisionRevision | null> {
+    const revisions = await this.getRevisions(decisionId);
+    for (let i = revisions.length - 1; i >= 0; i--) {
+      const revision = revisions[i];
+      if (
+        (revision.action === "update" || revision.action === "revert") &&
+        (revision.snapshot || Object.keys(revision.before).length > 0)
+      ) {
+        return revision;
+      }
+    }
+    return null;
+  }
+}
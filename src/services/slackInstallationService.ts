@@ -0,0 +1,149 @@
+import { SlackInstallation } from "../types";
+import { JsonFileStore } from "../utils/jsonFileStore";
+import { SlackService } from "./slackService";
+
+interface InstallationLog {
+  installations: Record<string, SlackInstallation>;
+}
+
+/**
+ * Workspaces the app is installed in, with their tokens, and the Slack
+ * client to use for each. Single-workspace setups (no SLACK_CLIENT_ID /
+ * SLACK_CLIENT_SECRET) use SLACK_BOT_TOKEN / SLACK_USER_TOKEN without going
+ * through OAuth. Once OAuth is configured, only installed workspaces get a
+ * client, so one workspace is never answered with another's token.
+ */
+export class SlackInstallationService {
+  private store: JsonFileStore<InstallationLog>;
+  private clients = new Map<string, SlackService>();
+  private envClient?: SlackService;
+
+  constructor(
+    filePath = process.env.SLACK_INSTALLATION_STORE_PATH ||
+      "data/slack-installations.json"
+  ) {
+    this.store = new JsonFileStore<InstallationLog>(filePath, () => ({
+      installations: {},
+    }));
+  }
+
+  /**
+   * Save an installation, replacing an earlier one for the same workspace
+   * @param installation - The installation
+   */
+  async save(installation: SlackInstallation): Promise<void> {
+    await this.store.mutate((log) => {
+      log.installations[installation.team_id] = installation;
+    });
+    this.clients.delete(installation.team_id);
+  }
+
+  /**
+   * Get the installation for a workspace
+   * @param teamId - Slack team (workspace) ID
+   * @returns Promise<SlackInstallation | null>
+   */
+  async get(teamId: string): Promise<SlackInstallation | null> {
+    const log = await this.store.read();
+    return log.installations[teamId] || null;
+  }
+
+  /**
+   * List every installation
+   * @returns Promise<SlackInstallation[]>
+   */
+  async list(): Promise<SlackInstallation[]> {
+    const log = await this.store.read();
+    return Object.values(log.installations);
+  }
+
+  /**
+   * Whether the app serves several workspaces, i.e. OAuth is configured
+   */
+  isMultiWorkspace(): boolean {
+    return oauthConfigured();
+  }
+
+  /**
+   * Every workspace the bot can post to: the installations, or in
+   * single-workspace mode the workspace of the env tokens
+   * @returns Promise<string[]> - Team IDs
+   */
+  async teamIds(): Promise<string[]> {
+    if (oauthConfigured()) {
+      return (await this.list()).map((installation) => installation.team_id);
+    }
+    const teamId = await (await this.clientFor())?.getTeamId();
+    return teamId ? [teamId] : [];
+  }
+
+  /**
+   * Forget a workspace, e.g. after the app was uninstalled
+   * @param teamId - Slack team (workspace) ID
+   * @returns Promise<boolean> - true if an installation was removed
+   */
+  async remove(teamId: string): Promise<boolean> {
+    this.clients.delete(teamId);
+    return this.store.mutate((log) => {
+      if (!log.installations[teamId]) {
+        return false;
+      }
+      delete log.installations[teamId];
+      return true;
+    });
+  }
+
+  /**
+   * Get the Slack client for a workspace. Without a team ID, the only
+   * installation is used if there is exactly one.
+   * @param teamId - Slack team (workspace) ID, from the event or interaction
+   * @returns Promise<SlackService | null> - null when the workspace has no
+   * installation and is not the workspace of the env tokens in
+   * single-workspace mode
+   */
+  async clientFor(teamId?: string): Promise<SlackService | null> {
+    if (teamId && this.clients.has(teamId)) {
+      return this.clients.get(teamId)!;
+    }
+
+    let installation = teamId ? await this.get(teamId) : null;
+    if (!teamId) {
+      const installations = await this.list();
+      installation = installations.length === 1 ? installations[0] : null;
+    }
+
+    if (installation && this.clients.has(installation.team_id)) {
+      return this.clients.get(installation.team_id)!;
+    }
+
+    if (installation) {
+      const client = new SlackService({
+        botToken: installation.bot_token,
+        userToken: installation.user_token,
+        teamId: installation.team_id,
+        botUserId: installation.bot_user_id,
+        teamUrl: installation.team_url,
+      });
+      this.clients.set(installation.team_id, client);
+      return client;
+    }
+
+    if (process.env.SLACK_BOT_TOKEN && !oauthConfigured()) {
+      this.envClient = this.envClient || new SlackService();
+      const envTeamId = await this.envClient.getTeamId();
+      if (!teamId || teamId === envTeamId) {
+        return this.envClient;
+      }
+    }
+
+    console.warn(`No Slack installation for team ${teamId || "(none)"}`);
+    return null;
+  }
+}
+
+/**
+ * Whether the app is set up to be installed in several workspaces
+ */
+function oauthConfigured(): boolean {
+  return Boolean(process.env.SLACK_CLIENT_ID && process.env.SLACK_CLIENT_SECRET);
+}
@@ -1,15 +1,47 @@
-import { SlackResponse } from "../types"
+import { SlackMessage, SlackResponse, ThreadFetchResult, ThreadMessage } from "../types"
+
+export interface SlackCredentials {
+	botToken?: string
+	userToken?: string
+	/** Workspace ID, if known from the installation */
+	teamId?: string
+	/** Bot user ID, if known from the installation */
+	botUserId?: string
+	/** Workspace URL, e.g. https://acme.slack.com/ */
+	teamUrl?: string
+}
+
+interface AuthInfo {
+	team_id?: string
+	user_id?: string
+	url?: string
+}
 
 /**
- * Service for interacting with Slack API
+ * Service for interacting with Slack API. Each instance talks to one
+ * workspace; without credentials it uses SLACK_BOT_TOKEN and SLACK_USER_TOKEN.
  */
 export class SlackService {
 	private botToken: string | undefined
 	private userToken: string | undefined
+	private authInfo: Promise<AuthInfo | undefined> | undefined
+	private displayNames = new Map<string, Promise<string>>()
 
-	constructor() {
-		this.botToken = process.env.SLACK_BOT_TOKEN
-		this.userToken = process.env.SLACK_USER_TOKEN
+	constructor(
+		credentials: SlackCredentials = {
+			botToken: process.env.SLACK_BOT_TOKEN,
+			userToken: process.env.SLACK_USER_TOKEN,
+		},
+	) {
+		this.botToken = credentials.botToken
+		this.userToken = credentials.userToken
+		if (credentials.teamId && credentials.botUserId && credentials.teamUrl) {
+			this.authInfo = Promise.resolve({
+				team_id: credentials.teamId,
+				user_id: credentials.botUserId,
+				url: credentials.teamUrl,
+			})
+		}
 	}
 
 	/**
@@ -79,6 +111,139 @@ export class SlackService {
 		return res.json() as Promise<SlackResponse>
 	}
 
+	/**
+	 * Iterate over the pages of a thread's replies, following cursors
+	 * @param channel - The channel ID
+	 * @param ts - The thread timestamp
+	 * @param pageSize - Messages requested per page
+	 * @returns AsyncGenerator yielding one page of messages at a time
+	 */
+	async *iterateThreadReplies(
+		channel: string,
+		ts: string,
+		pageSize = 200,
+	): AsyncGenerator<SlackMessage[]> {
+		let cursor: string | undefined
+		do {
+			// The user token can read channels the bot is not in
+			const response = await this.formCall(
+				"conversations.replies",
+				{
+					channel,
+					ts,
+					limit: pageSize,
+					...(cursor ? { cursor } : {}),
+				},
+				this.getUserToken() || this.getBotToken(),
+			)
+			if (!response.ok) {
+				throw new Error(`conversations.replies failed: ${response.error}`)
+			}
+
+			yield response.messages || []
+
+			cursor = response.has_more
+				? response.response_metadata?.next_cursor || undefined
+				: undefined
+		} while (cursor)
+	}
+
+	/**
+	 * Fetch a thread's messages up to a cap
+	 * @param channel - The channel ID
+	 * @param ts - The thread timestamp
+	 * @param maxMessages - Stop after this many messages (SLACK_THREAD_MAX_MESSAGES)
+	 * @returns The messages with their authors, and whether fetching stopped
+	 * at the cap
+	 */
+	async fetchThreadMessages(
+		channel: string,
+		ts: string,
+		maxMessages = Number(process.env.SLACK_THREAD_MAX_MESSAGES) || 1000,
+	): Promise<ThreadFetchResult> {
+		const messages: SlackMessage[] = []
+		let truncated = false
+
+		fetching: for await (const page of this.iterateThreadReplies(channel, ts)) {
+			for (const message of page) {
+				if (messages.length >= maxMessages) {
+					console.warn(`Thread ${ts} truncated at ${maxMessages} messages`)
+					truncated = true
+					break fetching
+				}
+				messages.push(message)
+			}
+		}
+
+		return {
+			messages: await Promise.all(messages.map((message) => this.toThreadMessage(message))),
+			truncated,
+		}
+	}
+
+	/**
+	 * Resolve the author of a raw Slack message and keep its files and
+	 * attachments
+	 */
+	private async toThreadMessage(message: SlackMessage): Promise<ThreadMessage> {
+		const is_bot = Boolean(message.bot_id) || !message.user
+		const files = (message.files || [])
+			.map((file) => file.title || file.name || "")
+			.filter(Boolean)
+		const attachments = (message.attachments || [])
+			.map((attachment) => ({
+				title: attachment.title,
+				text: attachment.text || (attachment.title ? undefined : attachment.fallback),
+				url: attachment.from_url || attachment.title_link,
+			}))
+			.filter((attachment) => attachment.title || attachment.text)
+		return {
+			text: message.text || "",
+			ts: message.ts || "",
+			user: message.user,
+			author: message.user
+				? await this.getUserDisplayName(message.user)
+				: message.bot_profile?.name || message.username || "bot",
+			is_bot,
+			files: files.length > 0 ? files : undefined,
+			attachments: attachments.length > 0 ? attachments : undefined,
+		}
+	}
+
+	/**
+	 * Get a user's display name with users.info, falling back to the user ID.
+	 * Names are cached for the lifetime of the process.
+	 * @param userId - Slack user ID
+	 * @returns Promise<string>
+	 */
+	async getUserDisplayName(userId: string): Promise<string> {
+		let name = this.displayNames.get(userId)
+		if (!name) {
+			// users.info only accepts form-encoded arguments
+			name = this.formCall("users.info", { user: userId }, this.getBotToken())
+				.then((response) => {
+					if (!response.ok) {
+						throw new Error(`users.info failed: ${response.error}`)
+					}
+					return (
+						response.user?.profile?.display_name ||
+						response.user?.profile?.real_name ||
+						response.user?.real_name ||
+						response.user?.name ||
+						userId
+					)
+				})
+				.catch((error) => {
+					console.warn(`Failed to look up user ${userId}:`, error)
+					// Retry on the next lookup instead of caching the fallback
+					this.displayNames.delete(userId)
+					return userId
+				})
+			this.displayNames.set(userId, name)
+		}
+		return name
+	}
+
 	/**
 	 * Get bot token
 	 */
@@ -93,6 +258,37 @@ export class SlackService {
 		return this.userToken
 	}
 
+	/**
+	 * Get the bot's own user ID, so its mention can be told apart from
+	 * mentions of people
+	 */
+	async getBotUserId(): Promise<string | undefined> {
+		return (await this.getAuthInfo())?.user_id
+	}
+
+	/**
+	 * Get the ID of the workspace this client talks to
+	 */
+	async getTeamId(): Promise<string | undefined> {
+		return (await this.getAuthInfo())?.team_id
+	}
+
+	/**
+	 * Look up the workspace, bot user and workspace URL once with auth.test
+	 */
+	private getAuthInfo(): Promise<AuthInfo | undefined> {
+		if (!this.authInfo) {
+			this.authInfo = this.apiCall("auth.test", {}, this.getBotToken()!)
+				.then((response) => ({ team_id: response.team_id, user_id: response.user_id, url: response.url }))
+				.catch((error) => {
+					console.warn("auth.test failed:", error)
+					this.authInfo = undefined
+					return undefined
+				})
+		}
+		return this.authInfo
+	}
+
 	/**
 	 * Get channel information from Slack API
 	 * @param channelId - The channel ID
@@ -179,17 +375,32 @@ export class SlackService {
 	}
 
 	/**
-	 * Build Slack thread URL from channel and thread timestamp
+	 * Get a link to a thread with chat.getPermalink, falling back to a URL
+	 * built from the workspace domain
 	 * @param channelId - The channel ID
 	 * @param threadTs - The thread timestamp
-	 * @param channelName - The channel name (optional, for better URL formatting)
 	 * @returns The full Slack thread URL
 	 */
-	buildThreadUrl(channelId: string, threadTs: string, channelName?: string): string {
+	async getThreadUrl(channelId: string, threadTs: string): Promise<string> {
+		try {
+			const response = await this.formCall(
+				"chat.getPermalink",
+				{ channel: channelId, message_ts: threadTs },
+				this.getBotToken(),
+			)
+			if (response.ok && response.permalink) {
+				return response.permalink
+			}
+			console.warn(`chat.getPermalink failed: ${response.error}`)
+		} catch (error) {
+			console.warn("chat.getPermalink failed:", error)
+		}
+
 		// Convert timestamp to format Slack expects in URLs
-		const timestamp = threadTs.replace('.', '')
-		const displayName = channelName || channelId
-		
-		return `https://minut.slack.com/archives/${displayName}/p${timestamp}`
+		const timestamp = threadTs.replace(".", "")
+		const workspaceUrl = (await this.getAuthInfo())?.url?.replace(/\/$/, "")
+		return workspaceUrl
+			? `${workspaceUrl}/archives/${channelId}/p${timestamp}`
+			: `https://slack.com/app_redirect?channel=${channelId}`
 	}
 }
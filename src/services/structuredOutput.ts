@@ -0,0 +1,150 @@
+import { ChatMessage, LLMTask, completeLLM } from "./llmProvider";
+import { Schema, validate } from "../utils/schema";
+import { LLMFailure } from "../types";
+
+const DEFAULT_MAX_REPAIRS = 2;
+
+/**
+ * The model kept returning output that does not match the schema, even
+ * after repair attempts
+ */
+export class LLMOutputError extends Error {
+  readonly task: LLMTask;
+  readonly errors: string[];
+  readonly attempts: number;
+  readonly rawOutput: string;
+
+  constructor(task: LLMTask, errors: string[], attempts: number, rawOutput: string) {
+    super(
+      `Invalid ${task} output after ${attempts} attempt(s): ${errors.slice(0, 3).join("; ")}`
+    );
+    this.name = "LLMOutputError";
+    this.task = task;
+    this.errors = errors;
+    this.attempts = attempts;
+    this.rawOutput = rawOutput;
+  }
+}
+
+/**
+ * The provider call itself failed (network, auth, rate limit, ...)
+ */
+export class LLMRequestError extends Error {
+  readonly task: LLMTask;
+
+  constructor(task: LLMTask, cause: unknown) {
+    super(
+      `LLM request for ${task} failed: ${cause instanceof Error ? cause.message : String(cause)}`
+    );
+    this.name = "LLMRequestError";
+    this.task = task;
+  }
+}
+
+/**
+ * LLM_MAX_REPAIRS, or the default when it is unset or not a count
+ */
+function configuredMaxRepairs(): number {
+  const repairs = Number(process.env.LLM_MAX_REPAIRS || DEFAULT_MAX_REPAIRS);
+  return Number.isFinite(repairs) && repairs >= 0
+    ? Math.floor(repairs)
+    : DEFAULT_MAX_REPAIRS;
+}
+
+/**
+ * Run an LLM task and validate its JSON against a schema. When the output
+ * is not valid JSON or breaks the schema, the errors are sent back to the
+ * model and it gets another try, up to LLM_MAX_REPAIRS times.
+ * @param task - The LLM task
+ * @param messages - Chat messages
+ * @param schema - Schema the response must match
+ * @param maxRepairs - Number of repair round-trips allowed
+ * @returns Promise<T> - The validated response
+ * @throws LLMOutputError | LLMRequestError
+ */
+export async function completeStructured<T>(
+  task: LLMTask,
+  messages: ChatMessage[],
+  schema: Schema<T>,
+  maxRepairs = configuredMaxRepairs()
+): Promise<T> {
+  const conversation = [...messages];
+  let lastErrors: string[] = [];
+  let lastContent = "";
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    try {
+      lastContent = await completeLLM(task, conversation);
+    } catch (error) {
+      throw new LLMRequestError(task, error);
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(lastContent);
+    } catch {
+      lastErrors = ["response is not valid JSON"];
+    }
+
+    if (parsed !== undefined) {
+      const result = validate(schema, parsed);
+      if (result.ok) {
+        return result.value;
+      }
+      lastErrors = result.errors;
+    }
+
+    console.warn(
+      `Invalid ${task} output (attempt ${attempt}): ${lastErrors.join("; ")}`
+    );
+    conversation.push(
+      { role: "assistant", content: lastContent },
+      {
+        role: "user",
+        content: `Your previous response was invalid:\n${lastErrors.map((e) => `- ${e}`).join("\n")}\n\nReturn the corrected JSON object only.`,
+      }
+    );
+  }
+
+  throw new LLMOutputError(task, lastErrors, maxRepairs + 1, lastContent);
+}
+
+/**
+ * Convert an error from completeStructured into an LLMFailure for the handlers
+ * @param error - The caught error
+ * @param message - User-facing description of what could not be done
+ * @returns LLMFailure
+ */
+export function toLLMFailure(error: unknown, message: string): LLMFailure {
+  if (error instanceof LLMOutputError) {
+    return {
+      error: `${message} The AI returned an invalid response ${error.attempts} time(s).`,
+      kind: "invalid_output",
+      details: error.errors,
+    };
+  }
+  if (error instanceof LLMRequestError) {
+    return {
+      error: `${message} The AI service could not be reached.`,
+      kind: "request_failed",
+      details: [error.message],
+    };
+  }
+  return {
+    error: message,
+    kind: "request_failed",
+    details: [error instanceof Error ? error.message : String(error)],
+  };
+}
+
+/**
+ * Check whether an LLM result is a failure
+ */
+export function isLLMFailure(value: unknown): value is LLMFailure {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "error" in value &&
+    "kind" in value
+  );
+}
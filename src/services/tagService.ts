@@ -0,0 +1,207 @@
+import { ManagedTag } from "../types";
+import { JsonFileStore } from "../utils/jsonFileStore";
+import { canonicalTags, cleanTag, tagKey, uniqueTags } from "../utils/tags";
+
+interface TagLog {
+  /** Vocabulary by team ID */
+  teams: Record<string, ManagedTag[]>;
+}
+
+export type TagChangeResult = { tag: ManagedTag } | { error: string };
+
+// Team key for setups that run on env tokens and never see a team ID
+const NO_TEAM = "default";
+
+/**
+ * The managed tag vocabulary of each workspace: the tags decisions are filed
+ * under, and the other spellings (aliases) that map onto each of them.
+ * Extraction chooses from these names, and renames and merges keep the old
+ * names as aliases so nothing written with them is lost.
+ */
+export class TagService {
+  private store: JsonFileStore<TagLog>;
+
+  constructor(filePath = process.env.TAG_STORE_PATH || "data/tags.json") {
+    this.store = new JsonFileStore<TagLog>(filePath, () => ({ teams: {} }));
+  }
+
+  /**
+   * List a workspace's managed tags
+   * @param teamId - Slack team (workspace) ID
+   * @returns Promise<ManagedTag[]> - Sorted by name
+   */
+  async list(teamId: string | undefined): Promise<ManagedTag[]> {
+    const log = await this.store.read();
+    return [...(log.teams[teamId || NO_TEAM] || [])].sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+  }
+
+  /**
+   * List a workspace's canonical tag names
+   * @param teamId - Slack team (workspace) ID
+   * @returns Promise<string[]>
+   */
+  async names(teamId: string | undefined): Promise<string[]> {
+    return (await this.list(teamId)).map((tag) => tag.name);
+  }
+
+  /**
+   * Map tags onto a workspace's vocabulary
+   * @param teamId - Slack team (workspace) ID
+   * @param tags - Tags as written
+   * @returns Promise<string[]> - Canonical names; unknown tags as written
+   */
+  async canonicalize(
+    teamId: string | undefined,
+    tags: Array<string | undefined>
+  ): Promise<string[]> {
+    return canonicalTags(tags, await this.list(teamId));
+  }
+
+  /**
+   * Add tags that are not in a workspace's vocabulary yet
+   * @param teamId - Slack team (workspace) ID
+   * @param tags - Tags used by a decision
+   * @param user - Slack user ID who introduced them
+   * @returns Promise<string[]> - The tags that were added
+   */
+  async register(
+    teamId: string | undefined,
+    tags: Array<string | undefined>,
+    user?: string
+  ): Promise<string[]> {
+    return this.mutateTeam(teamId, (vocabulary) => {
+      const added: string[] = [];
+      for (const name of uniqueTags(tags)) {
+        if (!findTag(vocabulary, name)) {
+          vocabulary.push({
+            name,
+            aliases: [],
+            created_at: new Date().toISOString(),
+            created_by: user,
+          });
+          added.push(name);
+        }
+      }
+      return added;
+    });
+  }
+
+  /**
+   * Rename a tag, keeping the old name as an alias
+   * @param teamId - Slack team (workspace) ID
+   * @param from - Tag name or alias
+   * @param to - New name, not used by another tag
+   * @returns Promise<TagChangeResult> - The renamed tag, or why it failed
+   */
+  async rename(
+    teamId: string | undefined,
+    from: string,
+    to: string
+  ): Promise<TagChangeResult> {
+    return this.mutateTeam(teamId, (vocabulary) => {
+      const tag = findTag(vocabulary, from);
+      if (!tag) {
+        return { error: `There is no tag "${from}".` };
+      }
+      const other = findTag(vocabulary, to);
+      if (other && other !== tag) {
+        return { error: `"${to}" is already the tag *${other.name}*; merge the tags instead.` };
+      }
+
+      const name = cleanTag(to);
+      tag.aliases = withoutName(uniqueTags([...tag.aliases, tag.name]), name);
+      tag.name = name;
+      return { tag };
+    });
+  }
+
+  /**
+   * Merge one tag into another; its name and aliases become aliases of the
+   * tag it is merged into
+   * @param teamId - Slack team (workspace) ID
+   * @param from - Tag to retire
+   * @param into - Tag to keep
+   * @returns Promise<TagChangeResult> - The kept tag, or why it failed
+   */
+  async merge(
+    teamId: string | undefined,
+    from: string,
+    into: string
+  ): Promise<TagChangeResult> {
+    return this.mutateTeam(teamId, (vocabulary) => {
+      const source = findTag(vocabulary, from);
+      const target = findTag(vocabulary, into);
+      if (!source) {
+        return { error: `There is no tag "${from}".` };
+      }
+      if (!target) {
+        return { error: `There is no tag "${into}".` };
+      }
+      if (source === target) {
+        return { error: `"${from}" and "${into}" are already the same tag.` };
+      }
+
+      target.aliases = withoutName(
+        uniqueTags([...target.aliases, source.name, ...source.aliases]),
+        target.name
+      );
+      vocabulary.splice(vocabulary.indexOf(source), 1);
+      return { tag: target };
+    });
+  }
+
+  /**
+   * Add another spelling for a tag
+   * @param teamId - Slack team (workspace) ID
+   * @param alias - The spelling
+   * @param tagName - Tag name or existing alias
+   * @returns Promise<TagChangeResult> - The tag, or why it failed
+   */
+  async addAlias(
+    teamId: string | undefined,
+    alias: string,
+    tagName: string
+  ): Promise<TagChangeResult> {
+    return this.mutateTeam(teamId, (vocabulary) => {
+      const tag = findTag(vocabulary, tagName);
+      if (!tag) {
+        return { error: `There is no tag "${tagName}".` };
+      }
+      const existing = findTag(vocabulary, alias);
+      if (existing && existing !== tag) {
+        return {
+          error: `"${alias}" is already the tag *${existing.name}*; merge the tags instead.`,
+        };
+      }
+
+      tag.aliases = withoutName(uniqueTags([...tag.aliases, alias]), tag.name);
+      return { tag };
+    });
+  }
+
+  private mutateTeam<R>(
+    teamId: string | undefined,
+    change: (vocabulary: ManagedTag[]) => R
+  ): Promise<R> {
+    return this.store.mutate((log) => {
+      const key = teamId || NO_TEAM;
+      log.teams[key] = log.teams[key] || [];
+      return change(log.teams[key]);
+    });
+  }
+}
+
+function findTag(vocabulary: ManagedTag[], name: string): ManagedTag | undefined {
+  const key = tagKey(name);
+  return vocabulary.find(
+    (tag) =>
+      tagKey(tag.name) === key ||
+      tag.aliases.some((alias) => tagKey(alias) === key)
+  );
+}
+
+function withoutName(aliases: string[], name: string): string[] {
+  return aliases.filter((alias) => tagKey(alias) !== tagKey(name));
+}
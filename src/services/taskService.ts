@@ -0,0 +1,169 @@
+import crypto from "crypto";
+import { FollowUpTask } from "../types";
+import { JsonFileStore } from "../utils/jsonFileStore";
+
+interface TaskLog {
+  next_number: number;
+  tasks: FollowUpTask[];
+}
+
+export type NewFollowUpTask = Omit<
+  FollowUpTask,
+  "id" | "number" | "status" | "created_at"
+>;
+
+/**
+ * Follow-up tasks created from thread summaries. Kept locally next to the
+ * revision log so they work with any decision store.
+ */
+export class TaskService {
+  private store: JsonFileStore<TaskLog>;
+  private reminderTimer?: NodeJS.Timeout;
+
+  constructor(filePath = process.env.TASK_STORE_PATH || "data/tasks.json") {
+    this.store = new JsonFileStore<TaskLog>(filePath, () => ({
+      next_number: 1,
+      tasks: [],
+    }));
+  }
+
+  /**
+   * Store new open tasks, numbering them in order
+   * @param tasks - The tasks to create
+   * @returns Promise<FollowUpTask[]> - The stored tasks
+   */
+  async createTasks(tasks: NewFollowUpTask[]): Promise<FollowUpTask[]> {
+    return this.store.mutate((log) => {
+      const created = tasks.map((task) => ({
+        ...task,
+        id: crypto.randomUUID(),
+        number: log.next_number++,
+        status: "open" as const,
+        created_at: new Date().toISOString(),
+      }));
+      log.tasks.push(...created);
+      return created;
+    });
+  }
+
+  /**
+   * Get a workspace's open tasks, soonest due first (undated last)
+   * @param teamId - Slack team (workspace) ID the tasks belong to
+   * @param assignee - Only tasks assigned to this Slack user, if given
+   * @returns Promise<FollowUpTask[]>
+   */
+  async getOpenTasks(
+    teamId: string | undefined,
+    assignee?: string
+  ): Promise<FollowUpTask[]> {
+    const log = await this.store.read();
+    return log.tasks
+      .filter(
+        (task) =>
+          task.status === "open" &&
+          inTeam(task, teamId) &&
+          (!assignee || task.assignee === assignee)
+      )
+      .sort(
+        (a, b) =>
+          (a.due_date || "9999").localeCompare(b.due_date || "9999") ||
+          a.number - b.number
+      );
+  }
+
+  /**
+   * Mark a workspace's tasks done by number
+   * @param teamId - Slack team (workspace) ID the tasks must belong to
+   * @param numbers - Task numbers
+   * @param user - Slack user completing them
+   * @returns Promise with the completed tasks and the numbers that were
+   * unknown, of another workspace or already done
+   */
+  async completeTasks(
+    teamId: string | undefined,
+    numbers: number[],
+    user?: string
+  ): Promise<{ completed: FollowUpTask[]; skipped: number[] }> {
+    return this.store.mutate((log) => {
+      const completed: FollowUpTask[] = [];
+      const skipped: number[] = [];
+      for (const number of numbers) {
+        const task = log.tasks.find(
+          (candidate) => candidate.number === number && inTeam(candidate, teamId)
+        );
+        if (!task || task.status === "done") {
+          skipped.push(number);
+          continue;
+        }
+        task.status = "done";
+        task.completed_at = new Date().toISOString();
+        task.completed_by = user;
+        completed.push(task);
+      }
+      return { completed, skipped };
+    });
+  }
+
+  /**
+   * Claim open tasks that are due and not yet reminded about. Claimed tasks
+   * are marked reminded, so each reminder is sent once.
+   * @param now - Current time
+   * @returns Promise<FollowUpTask[]> - Tasks to remind about
+   */
+  async claimDueReminders(now = new Date()): Promise<FollowUpTask[]> {
+    const today = now.toISOString().slice(0, 10);
+    return this.store.mutate((log) => {
+      const due = log.tasks.filter(
+        (task) =>
+          task.status === "open" &&
+          task.due_date &&
+          task.due_date <= today &&
+          !task.reminded_at
+      );
+      for (const task of due) {
+        task.reminded_at = now.toISOString();
+      }
+      return due;
+    });
+  }
+
+  /**
+   * Periodically send reminders for tasks that have come due
+   * @param onDue - Called for each task to remind about
+   * @param intervalMs - How often to check
+   */
+  startReminders(
+    onDue: (task: FollowUpTask) => Promise<void>,
+    intervalMs = (Number(process.env.TASK_REMINDER_CHECK_SECONDS) || 300) * 1000
+  ): void {
+    this.stopReminders();
+    this.reminderTimer = setInterval(async () => {
+      try {
+        for (const task of await this.claimDueReminders()) {
+          await onDue(task).catch((error) =>
+            console.error(`Failed to send reminder for task #${task.number}:`, error)
+          );
+        }
+      } catch (error) {
+        console.error("Task reminder check failed:", error);
+      }
+    }, intervalMs);
+    // Don't keep the process alive just for reminders
+    this.reminderTimer.unref();
+  }
+
+  /**
+   * Stop sending reminders
+   */
+  stopReminders(): void {
+    if (this.reminderTimer) {
+      clearInterval(this.reminderTimer);
+      this.reminderTimer = undefined;
+    }
+  }
+}
+
+// Task numbers are shared by all workspaces, so every lookup checks the team
+function inTeam(task: FollowUpTask, teamId: string | undefined): boolean {
+  return (task.team_id || undefined) === (teamId || undefined);
+}
@@ -8,19 +8,49 @@ export interface SlackEvent {
 	text: string
 	ts: string
 	thread_ts?: string
+	user?: string
+	/** Set on tokens_revoked: the user IDs whose tokens were revoked */
+	tokens?: { oauth?: string[]; bot?: string[] }
 }
 
 export interface SlackRequestBody {
 	type?: string
 	challenge?: string
+	event_id?: string
+	event_time?: number
+	team_id?: string
 	event?: SlackEvent
 }
 
 export interface SlackResponse {
 	ok: boolean
 	error?: string
+	ts?: string
+	/** Set by auth.test */
+	user_id?: string
+	team_id?: string
+	/** Workspace URL, e.g. https://acme.slack.com/ (auth.test) */
+	url?: string
+	/** Set by chat.getPermalink */
+	permalink?: string
+	/** Set by oauth.v2.access */
+	access_token?: string
+	bot_user_id?: string
+	scope?: string
+	team?: { id: string; name?: string }
+	authed_user?: { id: string; access_token?: string; scope?: string }
+	/** Set by users.info */
+	user?: {
+		id: string
+		name?: string
+		real_name?: string
+		is_bot?: boolean
+		profile?: { display_name?: string; real_name?: string }
+	}
 	canvas_id?: string
-	messages?: Array<{ text: string }>
+	messages?: SlackMessage[]
+	has_more?: boolean
+	response_metadata?: { next_cursor?: string }
 	canvases?: Array<{ title: string; canvas_id: string }>
 	channel?: {
 		name: string
@@ -34,18 +64,159 @@ export interface SlackResponse {
 	}>
 }
 
+export interface SlackBlockAction {
+	action_id: string
+	value?: string
+	block_id?: string
+}
+
+export interface SlackInteractionPayload {
+	type: string
+	state?: {
+		values: Record<
+			string,
+			Record<string, { type: string; selected_options?: Array<{ value: string }> }>
+		>
+	}
+	user: { id: string; username?: string }
+	team?: { id: string; domain?: string }
+	channel?: { id: string; name?: string }
+	container?: { message_ts?: string; channel_id?: string }
+	message?: { ts: string; thread_ts?: string }
+	actions?: SlackBlockAction[]
+	response_url?: string
+}
+
+/**
+ * Tokens and details saved when the app is installed in a workspace
+ */
+export interface SlackInstallation {
+	team_id: string
+	team_name?: string
+	/** Workspace URL, e.g. https://acme.slack.com/ */
+	team_url?: string
+	bot_token: string
+	bot_user_id?: string
+	bot_scopes?: string
+	user_token?: string
+	user_scopes?: string
+	/** Slack user who installed the app */
+	installed_by?: string
+	installed_at: string
+}
+
+export type SignatureRejectionReason =
+	| "no_secret_configured"
+	| "missing_headers"
+	| "missing_raw_body"
+	| "invalid_timestamp"
+	| "stale_timestamp"
+	| "malformed_signature"
+	| "signature_mismatch"
+
+export type SignatureVerificationResult =
+	| { valid: true }
+	| { valid: false; reason: SignatureRejectionReason }
+
 export interface ExtendedRequest {
 	body: any
 	headers: Record<string, string | string[] | undefined>
 	rawBody?: string
 }
 
-export interface DecisionExtraction {
+/** A message as returned by conversations.replies */
+export interface SlackMessage {
+	text: string
+	ts?: string
+	user?: string
+	bot_id?: string
+	username?: string
+	bot_profile?: { name?: string }
+	files?: Array<{ name?: string; title?: string }>
+	/** Link unfurls and legacy attachments */
+	attachments?: Array<{
+		title?: string
+		text?: string
+		fallback?: string
+		from_url?: string
+		title_link?: string
+	}>
+}
+
+/**
+ * A thread message with its author resolved
+ */
+export interface ThreadMessage {
+	text: string
+	ts: string
+	/** Slack user ID; integrations without a bot user have none */
+	user?: string
+	/** Display name of the author, falling back to the user ID */
+	author: string
+	is_bot: boolean
+	/** Titles of attached files */
+	files?: string[]
+	/** Link unfurls and attachments, as title and text */
+	attachments?: Array<{ title?: string; text?: string; url?: string }>
+}
+
+export interface ThreadFetchResult {
+	messages: ThreadMessage[]
+	truncated: boolean
+}
+
+export type DecisionStatus = "proposed" | "accepted" | "superseded" | "rejected"
+
+export const DECISION_STATUSES: readonly DecisionStatus[] = [
+	"proposed",
+	"accepted",
+	"superseded",
+	"rejected",
+]
+
+/**
+ * Architecture-decision-record fields. All optional: older records and
+ * Notion databases without the matching properties simply leave them out.
+ */
+export interface DecisionRecordFields {
+	status?: DecisionStatus
+	context?: string
+	rationale?: string
+	alternatives?: string[]
+	consequences?: string
+	owner?: string
+	decision_date?: string
+	/** Display name of the person who made the final call */
+	decided_by?: string
+	/** Display names of the people who took part in the thread */
+	participants?: string[]
+	/** Every tag of the decision, main tag first; older records only have tag */
+	tags?: string[]
+}
+
+/**
+ * Links between a decision and the newer one that replaced it, by ID
+ */
+export interface DecisionLinks {
+	supersedes?: string
+	superseded_by?: string
+}
+
+export interface DecisionExtraction extends DecisionRecordFields {
 	title: string
 	summary: string
 	tag: string
 }
 
+export interface DecisionCandidate extends DecisionExtraction {
+	confidence: number
+	duplicate_of?: {
+		id: string
+		title: string
+		similarity_score: number
+	}
+}
+
 export interface OpenAIResponse {
 	title?: string
 	summary?: string
@@ -54,12 +225,14 @@ export interface OpenAIResponse {
 }
 
 
-export interface NotionDatabaseEntry {
+export interface NotionDatabaseEntry extends DecisionRecordFields, DecisionLinks {
 	title: string
 	summary: string
 	tag: string
 	slack_thread: string
 	slack_channel: string
+	/** Slack workspace the decision was logged from */
+	team_id?: string
 	date_timestamp: string
 }
 
@@ -69,6 +242,61 @@ export interface NotionOperationResult {
 	error?: string
 }
 
+export interface StoredDecision extends DecisionRecordFields, DecisionLinks {
+	id: string
+	title: string
+	summary: string
+	tag: string
+	slack_thread?: string
+	slack_channel?: string
+	team_id?: string
+	date_timestamp?: string
+}
+
+export type DecisionFields = Pick<NotionDatabaseEntry, "title" | "summary" | "tag">
+
+/**
+ * Every field of a decision that a revert restores
+ */
+export type DecisionSnapshot = DecisionFields & DecisionRecordFields
+
+export type RevisionAction = "create" | "update" | "revert" | "delete" | "supersede"
+
+export interface DecisionRevision {
+	id: string
+	decision_id: string
+	action: RevisionAction
+	user?: string
+	channel: string
+	thread_ts: string
+	thread_url?: string
+	/** Slack workspace the change came from; REST API changes have none */
+	team_id?: string
+	before: Partial<DecisionFields>
+	after: Partial<DecisionFields>
+	/** The whole decision before the change; older revisions only have before */
+	snapshot?: DecisionSnapshot
+	timestamp: string
+}
+
+/**
+ * Storage backend for decisions. Implemented by the Notion service and the
+ * local file store; handlers only talk to this interface.
+ */
+export interface DecisionRepository {
+	addDecision(entry: NotionDatabaseEntry): Promise<NotionOperationResult>
+	getAllDecisions(): Promise<StoredDecision[]>
+	getDecision(id: string): Promise<StoredDecision | null>
+	/** Fields left undefined are kept; an empty string or list clears a record field */
+	updateDecision(
+		id: string,
+		entry: Partial<NotionDatabaseEntry>,
+	): Promise<NotionOperationResult>
+	deleteDecision(id: string): Promise<NotionOperationResult>
+	getDatabaseUrl(): string | undefined
+	testConnection(): Promise<boolean>
+}
+
 export interface RelatedDecision {
 	id: number
 	title: string
@@ -89,13 +317,45 @@ export interface DecisionUpdateAnalysis {
 	confidence: number
 }
 
+/**
+ * A confirm-before-apply action waiting for the requester's answer.
+ * `type` says what will be applied and `data` holds what it needs.
+ */
+export interface PendingAction<T = Record<string, any>> {
+	key: string
+	type: string
+	/** Workspace the action was requested in */
+	team_id?: string
+	channel: string
+	thread_ts: string
+	thread_url?: string
+	requested_by?: string
+	message_ts?: string
+	created_at: number
+	expires_at: number
+	data: T
+}
+
 export interface PendingDeletion {
 	decision_id: string
 	title: string
 	summary: string
-	thread_ts: string
-	channel: string
-	timestamp: number
+}
+
+export type LLMFailureKind =
+	| "invalid_output"
+	| "request_failed"
+	| "low_confidence"
+	| "not_found"
+
+/**
+ * Why an LLM step did not produce a usable result, in a form the Slack
+ * handlers can report
+ */
+export interface LLMFailure {
+	error: string
+	kind: LLMFailureKind
+	details?: string[]
 }
 
 export interface ThreadSummaryResponse {
@@ -106,11 +366,89 @@ export interface ThreadSummaryResponse {
 	confidence: number
 }
 
+export type FollowUpTaskStatus = "open" | "done"
+
+/**
+ * A next step from a thread summary, tracked until someone marks it done
+ */
+export interface FollowUpTask {
+	id: string
+	/** Short sequential number users refer to, e.g. "#12" */
+	number: number
+	text: string
+	assignee?: string
+	due_date?: string
+	status: FollowUpTaskStatus
+	team_id?: string
+	channel: string
+	thread_ts: string
+	thread_url?: string
+	created_by?: string
+	created_at: string
+	reminded_at?: string
+	completed_at?: string
+	completed_by?: string
+}
+
 export enum ActionType {
 	CREATE = "create",
 	UPDATE = "update", 
 	READ = "read",
 	DELETE = "delete",
 	SUMMARY = "summary",
+	HISTORY = "history",
+	REVERT = "revert",
+	LIST_TASKS = "list_tasks",
+	COMPLETE_TASK = "complete_task",
 	NONE_APPLICABLE = "none_applicable"
 }
+
+/**
+ * A tag in the managed vocabulary. Aliases are other spellings that are
+ * stored as this tag.
+ */
+export interface ManagedTag {
+	name: string
+	aliases: string[]
+	created_at: string
+	created_by?: string
+}
+
+/** Minimum LLM confidence (0-100) each flow accepts */
+export interface ConfidenceThresholds {
+	extraction: number
+	update: number
+	summary: number
+}
+
+export type DecisionStoreKind = "notion" | "file"
+
+/**
+ * Settings stored for a channel or as workspace defaults. Unset fields are
+ * inherited: channel, then workspace, then the built-in defaults.
+ */
+export interface ChannelSettings {
+	store?: DecisionStoreKind
+	notion_database?: string
+	allowed_actions?: ActionType[]
+	default_tag?: string
+	extraction_threshold?: number
+	update_threshold?: number
+	summary_threshold?: number
+}
+
+export type ChannelSettingKey = keyof ChannelSettings
+
+/** Where a setting is stored: for one channel, or as a workspace default */
+export type ConfigScope = "channel" | "workspace"
+
+/**
+ * The settings in effect for a channel
+ */
+export interface ChannelConfig {
+	store: DecisionStoreKind
+	notion_database?: string
+	allowed_actions: ActionType[]
+	default_tag?: string
+	thresholds: ConfidenceThresholds
+}
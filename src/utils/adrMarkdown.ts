@@ -0,0 +1,223 @@
+import { DECISION_STATUSES, DecisionStatus, NotionDatabaseEntry, StoredDecision } from "../types"
+import { escapePipes } from "./stringUtils"
+
+/**
+ * Conversion between decisions and Markdown architecture decision records
+ * (ADRs): one file per decision with YAML front matter, plus an index file
+ */
+
+export const ADR_INDEX_FILE = "index.md"
+
+/** A decision read back from an ADR file */
+export interface ParsedAdr {
+	/** ID the decision had in the store it was exported from, if recorded */
+	source_id?: string
+	entry: NotionDatabaseEntry
+}
+
+/** Front matter keys, in the order they are written */
+const FRONT_MATTER_KEYS = [
+	"id",
+	"title",
+	"status",
+	"tag",
+	"tags",
+	"owner",
+	"decided_by",
+	"participants",
+	"decision_date",
+	"slack_channel",
+	"slack_thread",
+	"date_timestamp",
+	"supersedes",
+	"superseded_by",
+] as const
+
+type FrontMatterKey = (typeof FRONT_MATTER_KEYS)[number]
+
+/** Body sections, mapped onto decision fields */
+const SECTIONS = {
+	Context: "context",
+	Decision: "summary",
+	Rationale: "rationale",
+	"Alternatives Considered": "alternatives",
+	Consequences: "consequences",
+} as const
+
+/**
+ * File name for an ADR: zero-padded number plus a slug of the title
+ * @param number - 1-based ADR number
+ * @param title - Decision title
+ * @returns e.g. "0007-use-postgres-for-analytics.md"
+ */
+export function adrFileName(number: number, title: string): string {
+	const slug = title
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-+|-+$/g, "")
+		.slice(0, 60)
+	return `${String(number).padStart(4, "0")}-${slug || "decision"}.md`
+}
+
+/**
+ * Render a decision as a Markdown ADR
+ * @param number - 1-based ADR number
+ * @param decision - The decision to render
+ * @returns Markdown text with front matter
+ */
+export function renderAdr(number: number, decision: StoredDecision): string {
+	const frontMatter = FRONT_MATTER_KEYS.filter((key) => decision[key])
+		// Double-quoted JSON strings are valid YAML scalars
+		.map((key) => {
+			const value = decision[key]
+			return `${key}: ${JSON.stringify(Array.isArray(value) ? value.join(", ") : value)}`
+		})
+
+	const sections: string[] = []
+	for (const [heading, field] of Object.entries(SECTIONS)) {
+		const value = decision[field]
+		if (Array.isArray(value) ? value.length === 0 : !value) {
+			continue
+		}
+		const body = Array.isArray(value) ? value.map((item) => `- ${item}`).join("\n") : value
+		sections.push(`## ${heading}\n\n${body}`)
+	}
+
+	return [
+		"---",
+		...frontMatter,
+		"---",
+		"",
+		`# ${number}. ${decision.title}`,
+		"",
+		sections.join("\n\n"),
+		"",
+	].join("\n")
+}
+
+/**
+ * Render the index file linking every exported ADR
+ * @param records - Exported ADRs with their number and file name
+ * @returns Markdown text
+ */
+export function renderAdrIndex(
+	records: Array<{ number: number; fileName: string; decision: StoredDecision }>,
+): string {
+	const rows = records.map(({ number, fileName, decision }) =>
+		[
+			String(number),
+			`[${escapePipes(decision.title)}](${fileName})`,
+			decision.status || "",
+			escapePipes(decision.tag),
+			(decision.decision_date || decision.date_timestamp || "").slice(0, 10),
+		].join(" | "),
+	)
+
+	return [
+		"# Decision Log",
+		"",
+		"| # | Decision | Status | Tag | Date |",
+		"| --- | --- | --- | --- | --- |",
+		...rows.map((row) => `| ${row} |`),
+		"",
+	].join("\n")
+}
+
+/**
+ * Parse a Markdown ADR back into a decision entry
+ * @param text - Markdown text, as written by renderAdr or by hand
+ * @returns The parsed ADR, or null if it has no title or decision text
+ */
+export function parseAdr(text: string): ParsedAdr | null {
+	const lines = text.replace(/\r\n/g, "\n").split("\n")
+	const meta: Partial<Record<FrontMatterKey, string>> = {}
+	let cursor = 0
+
+	if (lines[0]?.trim() === "---") {
+		const end = lines.indexOf("---", 1)
+		for (const line of lines.slice(1, end === -1 ? 1 : end)) {
+			const match = line.match(/^([A-Za-z_]+):\s*(.*)$/)
+			if (match && (FRONT_MATTER_KEYS as readonly string[]).includes(match[1])) {
+				meta[match[1] as FrontMatterKey] = parseScalar(match[2])
+			}
+		}
+		cursor = end === -1 ? 0 : end + 1
+	}
+
+	let heading = ""
+	const sections: Record<string, string[]> = {}
+	for (const line of lines.slice(cursor)) {
+		const h1 = line.match(/^#\s+(?:\d+\.\s*)?(.+)$/)
+		const h2 = line.match(/^##\s+(.+)$/)
+		if (h2) {
+			heading = h2[1].trim()
+			sections[heading] = []
+		} else if (h1 && !meta.title) {
+			meta.title = h1[1].trim()
+		} else if (heading) {
+			sections[heading].push(line)
+		}
+	}
+
+	const section = (name: keyof typeof SECTIONS) => sections[name]?.join("\n").trim() || undefined
+	const title = meta.title?.trim()
+	const summary = section("Decision")
+	if (!title || !summary) {
+		return null
+	}
+
+	const alternatives = (sections["Alternatives Considered"] || [])
+		.map((line) => line.replace(/^\s*[-*]\s*/, "").trim())
+		.filter(Boolean)
+	const status = meta.status as DecisionStatus
+	const participants = (meta.participants || "")
+		.split(/,\s*/)
+		.map((name) => name.trim())
+		.filter(Boolean)
+	const tags = (meta.tags || "")
+		.split(/,\s*/)
+		.map((tag) => tag.trim())
+		.filter(Boolean)
+
+	return {
+		source_id: meta.id,
+		entry: {
+			title,
+			summary,
+			tag: meta.tag || "",
+			slack_thread: meta.slack_thread || "",
+			slack_channel: meta.slack_channel || "",
+			date_timestamp: meta.date_timestamp || new Date().toISOString(),
+			status: DECISION_STATUSES.includes(status) ? status : undefined,
+			context: section("Context"),
+			rationale: section("Rationale"),
+			alternatives: alternatives.length > 0 ? alternatives : undefined,
+			consequences: section("Consequences"),
+			owner: meta.owner,
+			decided_by: meta.decided_by,
+			participants: participants.length > 0 ? participants : undefined,
+			tags: tags.length > 0 ? tags : undefined,
+			decision_date: meta.decision_date,
+			supersedes: meta.supersedes,
+			superseded_by: meta.superseded_by,
+		},
+	}
+}
+
+/**
+ * Read a front matter value: double-quoted (JSON-style), single-quoted or bare
+ */
+function parseScalar(raw: string): string {
+	const value = raw.trim()
+	if (value.startsWith('"')) {
+		try {
+			return String(JSON.parse(value))
+		} catch {
+			return value.slice(1, -1)
+		}
+	}
+	if (value.startsWith("'") && value.endsWith("'")) {
+		return value.slice(1, -1).replace(/''/g, "'")
+	}
+	return value
+}
@@ -0,0 +1,145 @@
+import { ActionType, ChannelSettingKey, ChannelSettings, ConfigScope } from "../types"
+
+/**
+ * Parsing for the "config" mention command, which shows and changes the
+ * settings of a channel or the defaults of its workspace:
+ *   config [workspace] show
+ *   config [workspace] set <setting> <value>
+ *   config [workspace] unset <setting>
+ */
+
+export type ConfigCommand =
+	| { action: "show"; scope: ConfigScope }
+	| { action: "set"; scope: ConfigScope; key: ChannelSettingKey; value: string }
+	| { action: "unset"; scope: ConfigScope; key: ChannelSettingKey }
+	| { action: "help"; error: string }
+
+export type ParsedSetting = { value: ChannelSettings[ChannelSettingKey] } | { error: string }
+
+/**
+ * Every action a channel can allow
+ */
+export const CONFIGURABLE_ACTIONS: ActionType[] = Object.values(ActionType).filter(
+	(action) => action !== ActionType.NONE_APPLICABLE,
+)
+
+/**
+ * Settings in the order they are shown
+ */
+export const SETTING_KEYS: ChannelSettingKey[] = [
+	"store",
+	"notion_database",
+	"allowed_actions",
+	"default_tag",
+	"extraction_threshold",
+	"update_threshold",
+	"summary_threshold",
+]
+
+/**
+ * Parse a config command
+ * @param text - Command text of the mention, without the bot's mention
+ * @returns The command, or null if the text is not a config command
+ */
+export function parseConfigCommand(text: string): ConfigCommand | null {
+	const match = text.trim().match(/^(?:config|settings)\b[:\s]*(.*)$/is)
+	if (!match) {
+		return null
+	}
+
+	let words = match[1].split(/\s+/).filter(Boolean)
+	let scope: ConfigScope = "channel"
+	if (words[0]?.toLowerCase() === "workspace") {
+		scope = "workspace"
+		words = words.slice(1)
+	}
+
+	const [verb = "show", rawKey, ...rest] = words
+	const action = verb.toLowerCase()
+	if (action === "show") {
+		return { action, scope }
+	}
+	if (action !== "set" && action !== "unset") {
+		// e.g. "Config: we moved to YAML files" is a request for the LLM flows
+		return null
+	}
+
+	const key = SETTING_KEYS.find((candidate) => candidate === rawKey?.toLowerCase())
+	if (!key) {
+		return { action: "help", error: rawKey ? `Unknown setting "${rawKey}".` : "Name the setting to change." }
+	}
+	if (action === "unset") {
+		return { action, scope, key }
+	}
+	if (rest.length === 0) {
+		return { action: "help", error: `Give a value for ${key}.` }
+	}
+	return { action, scope, key, value: rest.join(" ") }
+}
+
+/**
+ * Validate and convert the value given for a setting
+ * @param key - The setting
+ * @param raw - Value as written in the command
+ * @returns The value to store, or an error to show
+ */
+export function parseSettingValue(key: ChannelSettingKey, raw: string): ParsedSetting {
+	const text = raw.trim().replace(/^["'`]|["'`]$/g, "")
+
+	switch (key) {
+		case "store": {
+			const store = text.toLowerCase()
+			return store === "notion" || store === "file" ? { value: store } : { error: 'store must be "notion" or "file".' }
+		}
+		case "notion_database": {
+			// Accept a database ID or the database's URL; the first ID in a URL is the database
+			const id = text.match(/[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}/i)
+			return id
+				? { value: id[0].replace(/-/g, "").toLowerCase() }
+				: { error: "notion_database must be a Notion database ID or URL." }
+		}
+		case "allowed_actions": {
+			const names = text.toLowerCase().split(/[\s,]+/).filter(Boolean)
+			if (names.length === 1 && names[0] === "all") {
+				return { value: CONFIGURABLE_ACTIONS }
+			}
+			if (names.length === 1 && names[0] === "none") {
+				return { value: [] }
+			}
+			const unknown = names.filter((name) => !CONFIGURABLE_ACTIONS.includes(name as ActionType))
+			if (unknown.length > 0) {
+				return {
+					error: `Unknown action${unknown.length > 1 ? "s" : ""} ${unknown.join(", ")}. Choose from ${CONFIGURABLE_ACTIONS.join(", ")}, or "all" / "none".`,
+				}
+			}
+			return { value: CONFIGURABLE_ACTIONS.filter((action) => names.includes(action)) }
+		}
+		case "default_tag": {
+			const tag = text.replace(/\s+/g, " ").trim()
+			return tag ? { value: tag.slice(0, 50) } : { error: "default_tag cannot be empty; use unset to clear it." }
+		}
+		case "extraction_threshold":
+		case "update_threshold":
+		case "summary_threshold": {
+			const threshold = Number(text.replace(/%$/, ""))
+			return Number.isInteger(threshold) && threshold >= 0 && threshold <= 100
+				? { value: threshold }
+				: { error: `${key} must be a whole number from 0 to 100.` }
+		}
+	}
+}
+
+/**
+ * Render a setting's value for a Slack message
+ * @param value - The value
+ * @returns Display text
+ */
+export function formatSettingValue(value: ChannelSettings[ChannelSettingKey]): string {
+	if (value === undefined || value === "") {
+		return "_(none)_"
+	}
+	if (Array.isArray(value)) {
+		return value.length > 0 ? value.join(", ") : "_(none)_"
+	}
+	return String(value)
+}
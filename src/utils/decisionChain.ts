@@ -0,0 +1,61 @@
+import { StoredDecision } from "../types"
+
+/**
+ * Helpers for following supersede links between decisions
+ */
+
+/**
+ * Follow superseded_by links to the decision currently in force
+ * @param decision - Any decision in a chain
+ * @param decisions - All known decisions
+ * @returns The newest decision in the chain (the input itself if it was
+ * never superseded or its successor is missing)
+ */
+export function currentVersionOf(
+	decision: StoredDecision,
+	decisions: StoredDecision[],
+): StoredDecision {
+	const byId = new Map(decisions.map((d) => [d.id, d]))
+	const seen = new Set<string>([decision.id])
+	let current = decision
+
+	while (current.superseded_by) {
+		const next = byId.get(current.superseded_by)
+		// Guard against dangling links and cycles from hand-edited records
+		if (!next || seen.has(next.id)) {
+			break
+		}
+		seen.add(next.id)
+		current = next
+	}
+
+	return current
+}
+
+/**
+ * List the decisions a decision replaced, newest first
+ * @param decision - The decision to start from
+ * @param decisions - All known decisions
+ * @returns Earlier versions, excluding the input
+ */
+export function supersededVersionsOf(
+	decision: StoredDecision,
+	decisions: StoredDecision[],
+): StoredDecision[] {
+	const byId = new Map(decisions.map((d) => [d.id, d]))
+	const seen = new Set<string>([decision.id])
+	const previous: StoredDecision[] = []
+	let current = decision
+
+	while (current.supersedes) {
+		const next = byId.get(current.supersedes)
+		if (!next || seen.has(next.id)) {
+			break
+		}
+		seen.add(next.id)
+		previous.push(next)
+		current = next
+	}
+
+	return previous
+}
@@ -0,0 +1,91 @@
+import { StoredDecision } from "../types"
+import { tagKey, tagsOf } from "./tags"
+
+/**
+ * Filtering shared by the REST API and the web dashboard
+ */
+
+export interface DecisionFilters {
+	tag?: string
+	channel?: string
+	status?: string
+	/** Inclusive lower bound, epoch milliseconds */
+	from?: number
+	/** Inclusive upper bound, epoch milliseconds */
+	to?: number
+	/** Free text, matched case-insensitively */
+	q?: string
+}
+
+/**
+ * Read filters from query string parameters
+ * @param query - Parsed query string
+ * @returns The filters, or an error message for an unparseable date
+ */
+export function parseDecisionFilters(
+	query: Record<string, unknown>,
+): { ok: true; filters: DecisionFilters } | { ok: false; error: string } {
+	const text = (key: string) =>
+		typeof query[key] === "string" && query[key] ? (query[key] as string).trim() : undefined
+
+	const filters: DecisionFilters = {
+		tag: text("tag"),
+		channel: text("channel"),
+		status: text("status"),
+		q: text("q"),
+	}
+
+	for (const key of ["from", "to"] as const) {
+		const value = text(key)
+		if (!value) {
+			continue
+		}
+		const parsed = Date.parse(value)
+		if (Number.isNaN(parsed)) {
+			return { ok: false, error: `${key} must be an ISO date` }
+		}
+		// A bare date as upper bound covers that whole day
+		filters[key] = key === "to" && /^\d{4}-\d{2}-\d{2}$/.test(value) ? parsed + 86_399_999 : parsed
+	}
+
+	return { ok: true, filters }
+}
+
+/**
+ * The date a decision is filed under: when it was decided if known,
+ * otherwise when it was logged
+ */
+export function decisionDate(decision: StoredDecision): string | undefined {
+	return decision.decision_date || decision.date_timestamp
+}
+
+/**
+ * Apply filters and order decisions newest first
+ * @param decisions - All decisions
+ * @param filters - Filters to apply
+ * @returns Matching decisions
+ */
+export function filterDecisions(
+	decisions: StoredDecision[],
+	filters: DecisionFilters,
+): StoredDecision[] {
+	const text = filters.q?.toLowerCase()
+
+	return decisions
+		.filter((decision) => {
+			const date = Date.parse(decisionDate(decision) || "")
+			const searchable = [decision.title, decision.summary, ...tagsOf(decision), decision.context, decision.rationale]
+				.filter(Boolean)
+				.join("\n")
+				.toLowerCase()
+			return (
+				(!filters.tag || tagsOf(decision).some((tag) => tagKey(tag) === tagKey(filters.tag!))) &&
+				(!filters.channel || decision.slack_channel === filters.channel) &&
+				(!filters.status || decision.status === filters.status) &&
+				(filters.from === undefined || date >= filters.from) &&
+				(filters.to === undefined || date <= filters.to) &&
+				(!text || searchable.includes(text))
+			)
+		})
+		.sort((a, b) => (decisionDate(b) || "").localeCompare(decisionDate(a) || ""))
+}
@@ -0,0 +1,97 @@
+import {
+	DecisionFields,
+	DecisionRecordFields,
+	DecisionSnapshot,
+	NotionDatabaseEntry,
+	StoredDecision,
+} from "../types"
+import { tagsOf } from "./tags"
+
+/**
+ * Helpers for the fields revisions record, and the snapshots they keep so a
+ * revert restores every field of the earlier version
+ */
+
+/**
+ * The decision record fields, in the order they are shown
+ */
+export const RECORD_FIELD_KEYS: Array<keyof DecisionRecordFields> = [
+	"status",
+	"context",
+	"rationale",
+	"alternatives",
+	"consequences",
+	"owner",
+	"decision_date",
+	"decided_by",
+	"participants",
+	"tags",
+]
+
+/**
+ * Pick the revisioned fields (title, summary, tag) from a decision
+ * @param source - Decision or changes
+ * @param keys - Fields to pick; all three by default
+ * @returns The fields that are set
+ */
+export function pickFields(
+	source: Partial<DecisionFields>,
+	keys: string[] = ["title", "summary", "tag"],
+): Partial<DecisionFields> {
+	const fields: Partial<DecisionFields> = {}
+	for (const key of ["title", "summary", "tag"] as const) {
+		if (keys.includes(key) && source[key]) {
+			fields[key] = source[key]
+		}
+	}
+	return fields
+}
+
+/**
+ * Whether an update value clears a record field: an empty string or list
+ * @param value - Value given for a field
+ * @returns boolean
+ */
+export function clearsField(value: unknown): boolean {
+	return value === "" || (Array.isArray(value) && value.length === 0)
+}
+
+/**
+ * Every field a revert restores, as the decision has them now
+ * @param decision - The decision
+ * @returns DecisionSnapshot
+ */
+export function snapshotOf(decision: StoredDecision): DecisionSnapshot {
+	const snapshot: DecisionSnapshot = {
+		title: decision.title,
+		summary: decision.summary,
+		tag: decision.tag,
+	}
+	for (const key of RECORD_FIELD_KEYS) {
+		if (decision[key] !== undefined) {
+			Object.assign(snapshot, { [key]: decision[key] })
+		}
+	}
+	snapshot.tags = tagsOf(decision)
+	return snapshot
+}
+
+/**
+ * The update that returns a decision to a snapshot. Record fields the
+ * snapshot does not have are cleared.
+ * @param snapshot - Version to restore
+ * @param current - The decision as it is now
+ * @returns Changes for DecisionRepository.updateDecision
+ */
+export function restoreChanges(
+	snapshot: DecisionSnapshot,
+	current: StoredDecision,
+): Partial<NotionDatabaseEntry> {
+	const changes: Partial<NotionDatabaseEntry> = { ...snapshot, tags: tagsOf(snapshot) }
+	for (const key of RECORD_FIELD_KEYS) {
+		if (snapshot[key] === undefined && current[key] !== undefined) {
+			Object.assign(changes, { [key]: Array.isArray(current[key]) ? [] : "" })
+		}
+	}
+	return changes
+}
@@ -0,0 +1,109 @@
+import crypto from "crypto"
+import { promises as fs } from "fs"
+import path from "path"
+
+// A lock older than this was left behind by a process that died mid-write
+const LOCK_STALE_MS = 10_000
+const LOCK_RETRY_MS = 20
+const LOCK_TIMEOUT_MS = 5_000
+
+/**
+ * Small JSON file persistence helper shared by the local stores.
+ * Reads return the fallback when the file does not exist yet, and writes
+ * are atomic (write to a temp file, then rename). Writes are serialized
+ * within the process and, through a lock file next to the data, across
+ * processes sharing the file, so each read-change-write sees the previous
+ * one's result.
+ */
+export class JsonFileStore<T> {
+	private filePath: string
+	private fallback: () => T
+	private writeQueue: Promise<void> = Promise.resolve()
+
+	constructor(filePath: string, fallback: () => T) {
+		this.filePath = path.resolve(filePath)
+		this.fallback = fallback
+	}
+
+	/**
+	 * Read the current contents of the file
+	 * @returns The parsed contents, or the fallback value if the file is missing
+	 */
+	async read(): Promise<T> {
+		try {
+			const raw = await fs.readFile(this.filePath, "utf8")
+			return { ...this.fallback(), ...JSON.parse(raw) }
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+				return this.fallback()
+			}
+			throw error
+		}
+	}
+
+	/**
+	 * Apply a change to the stored data and write it back
+	 * @param change - Mutates the data in place and may return a result
+	 * @returns The value returned by the change function
+	 */
+	mutate<R>(change: (data: T) => R): Promise<R> {
+		const run = this.writeQueue.then(async () => {
+			await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+			return this.withLock(async () => {
+				const data = await this.read()
+				const result = change(data)
+				// Unique per write, so processes never share a temp file
+				const tmpPath = `${this.filePath}.${process.pid}.${crypto.randomUUID()}.tmp`
+				await fs.writeFile(tmpPath, JSON.stringify(data, null, 2))
+				await fs.rename(tmpPath, this.filePath)
+				return result
+			})
+		})
+		// Keep the queue alive even if this write fails
+		this.writeQueue = run.then(
+			() => undefined,
+			() => undefined,
+		)
+		return run
+	}
+
+	/**
+	 * Run a function while holding the file's lock
+	 * @param fn - Work to do under the lock
+	 * @returns The function's result
+	 * @throws When the lock stays taken for LOCK_TIMEOUT_MS
+	 */
+	private async withLock<R>(fn: () => Promise<R>): Promise<R> {
+		const lockPath = `${this.filePath}.lock`
+		const deadline = Date.now() + LOCK_TIMEOUT_MS
+
+		for (;;) {
+			try {
+				// "wx" fails when the file exists, so only one process gets the lock
+				const handle = await fs.open(lockPath, "wx")
+				await handle.close()
+				break
+			} catch (error) {
+				if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+					throw error
+				}
+			}
+
+			const stat = await fs.stat(lockPath).catch(() => null)
+			if (stat && Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+				await fs.rm(lockPath, { force: true })
+				continue
+			}
+			if (Date.now() > deadline) {
+				throw new Error(`Timed out waiting for the lock on ${this.filePath}`)
+			}
+			await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS))
+		}
+
+		try {
+			return await fn()
+		} finally {
+			await fs.rm(lockPath, { force: true })
+		}
+	}
+}
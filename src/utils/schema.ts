@@ -0,0 +1,122 @@
+/**
+ * Minimal declarative validation for JSON returned by the LLM. Each schema
+ * collects readable error messages (with the path of the bad field) so they
+ * can be sent back to the model in a repair request.
+ */
+
+export interface Schema<T> {
+	/** Phantom field carrying the validated type */
+	readonly _type?: T
+	check(value: unknown, path: string, errors: string[]): void
+}
+
+export type ValidationResult<T> =
+	| { ok: true; value: T }
+	| { ok: false; errors: string[] }
+
+function schema<T>(check: Schema<T>["check"]): Schema<T> {
+	return { check }
+}
+
+function label(path: string): string {
+	return path || "response"
+}
+
+export const s = {
+	string(options: { minLength?: number; maxLength?: number } = {}): Schema<string> {
+		return schema((value, path, errors) => {
+			if (typeof value !== "string") {
+				errors.push(`${label(path)} must be a string`)
+				return
+			}
+			const length = value.trim().length
+			if (options.minLength !== undefined && length < options.minLength) {
+				errors.push(`${label(path)} must not be empty`)
+			}
+			if (options.maxLength !== undefined && length > options.maxLength) {
+				errors.push(`${label(path)} must be at most ${options.maxLength} characters`)
+			}
+		})
+	},
+
+	number(options: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> {
+		return schema((value, path, errors) => {
+			if (typeof value !== "number" || Number.isNaN(value)) {
+				errors.push(`${label(path)} must be a number`)
+				return
+			}
+			if (options.integer && !Number.isInteger(value)) {
+				errors.push(`${label(path)} must be an integer`)
+			}
+			if (options.min !== undefined && value < options.min) {
+				errors.push(`${label(path)} must be >= ${options.min}`)
+			}
+			if (options.max !== undefined && value > options.max) {
+				errors.push(`${label(path)} must be <= ${options.max}`)
+			}
+		})
+	},
+
+	boolean(): Schema<boolean> {
+		return schema((value, path, errors) => {
+			if (typeof value !== "boolean") {
+				errors.push(`${label(path)} must be a boolean`)
+			}
+		})
+	},
+
+	enumOf<T extends string>(values: readonly T[]): Schema<T> {
+		return schema((value, path, errors) => {
+			if (!values.includes(value as T)) {
+				errors.push(`${label(path)} must be one of: ${values.join(", ")}`)
+			}
+		})
+	},
+
+	array<T>(item: Schema<T>, options: { maxItems?: number } = {}): Schema<T[]> {
+		return schema((value, path, errors) => {
+			if (!Array.isArray(value)) {
+				errors.push(`${label(path)} must be an array`)
+				return
+			}
+			if (options.maxItems !== undefined && value.length > options.maxItems) {
+				errors.push(`${label(path)} must have at most ${options.maxItems} items`)
+			}
+			value.forEach((element, index) => item.check(element, `${path}[${index}]`, errors))
+		})
+	},
+
+	object<T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+		return schema((value, path, errors) => {
+			if (typeof value !== "object" || value === null || Array.isArray(value)) {
+				errors.push(`${label(path)} must be an object`)
+				return
+			}
+			for (const key of Object.keys(shape) as Array<keyof T>) {
+				const fieldPath = path ? `${path}.${String(key)}` : String(key)
+				shape[key].check((value as Record<string, unknown>)[key as string], fieldPath, errors)
+			}
+		})
+	},
+
+	/** Accepts undefined or null in addition to the wrapped schema */
+	optional<T>(inner: Schema<T>): Schema<T | undefined> {
+		return schema((value, path, errors) => {
+			if (value !== undefined && value !== null) {
+				inner.check(value, path, errors)
+			}
+		})
+	},
+}
+
+/**
+ * Validate a value against a schema
+ * @param schema - The schema to check against
+ * @param value - Parsed JSON value
+ * @returns The typed value, or the list of validation errors
+ */
+export function validate<T>(schema: Schema<T>, value: unknown): ValidationResult<T> {
+	const errors: string[] = []
+	schema.check(value, "", errors)
+	return errors.length === 0 ? { ok: true, value: value as T } : { ok: false, errors }
+}
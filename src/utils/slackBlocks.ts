@@ -0,0 +1,162 @@
+import { DecisionRecordFields } from "../types"
+
+/**
+ * Block Kit builders for interactive bot messages
+ */
+
+export const DELETE_CONFIRM_ACTION = "delete_decision_confirm"
+export const DELETE_CANCEL_ACTION = "delete_decision_cancel"
+export const LOG_DECISIONS_SELECT_ACTION = "log_decisions_select"
+export const LOG_DECISIONS_CONFIRM_ACTION = "log_decisions_confirm"
+export const LOG_DECISIONS_CANCEL_ACTION = "log_decisions_cancel"
+
+/**
+ * A Block Kit block, as sent in a message's blocks
+ */
+export type SlackBlock = Record<string, unknown>
+
+/**
+ * Render the decision record fields that are set, one per line, as Slack mrkdwn
+ * @param decision - Decision with optional record fields
+ * @returns Formatted lines, or an empty string when no field is set
+ */
+export function formatDecisionRecord(decision: DecisionRecordFields): string {
+	const lines: string[] = []
+	if (decision.tags && decision.tags.length > 1) lines.push(`*Tags:* ${decision.tags.join(", ")}`)
+	if (decision.status) lines.push(`*Status:* ${decision.status}`)
+	if (decision.owner) lines.push(`*Owner:* ${decision.owner}`)
+	if (decision.decided_by) lines.push(`*Decided by:* ${decision.decided_by}`)
+	if (decision.participants?.length) lines.push(`*Participants:* ${decision.participants.join(", ")}`)
+	if (decision.decision_date) lines.push(`*Decided on:* ${decision.decision_date}`)
+	if (decision.context) lines.push(`*Context:* ${decision.context}`)
+	if (decision.rationale) lines.push(`*Rationale:* ${decision.rationale}`)
+	if (decision.alternatives?.length) {
+		lines.push(`*Alternatives considered:*\n${decision.alternatives.map((alternative) => `• ${alternative}`).join("\n")}`)
+	}
+	if (decision.consequences) lines.push(`*Consequences:* ${decision.consequences}`)
+	return lines.join("\n")
+}
+
+/**
+ * Build the message that lets the requester pick which of several extracted
+ * decisions to log. Possible duplicates start unchecked.
+ * @param pendingKey - Key of the pending action, carried as the button value
+ * @param candidates - Extracted decisions
+ * @param note - Optional context line, e.g. that the thread was condensed
+ * @returns Block Kit blocks
+ */
+export function buildDecisionCandidatesBlocks(
+	pendingKey: string,
+	candidates: Array<
+		DecisionRecordFields & {
+			title: string
+			summary: string
+			tag: string
+			confidence: number
+			duplicate_of?: { title: string; similarity_score: number }
+		}
+	>,
+	note?: string,
+): SlackBlock[] {
+	const options = candidates.map((candidate, index) => ({
+		text: { type: "plain_text", text: `${index + 1}. ${candidate.title}`.slice(0, 75) },
+		value: String(index),
+	}))
+	const initialOptions = options.filter((_, index) => !candidates[index].duplicate_of)
+
+	return [
+		{
+			type: "section",
+			text: {
+				type: "mrkdwn",
+				text: `🗂️ I found *${candidates.length} decisions* in this thread. Choose which ones to log:`,
+			},
+		},
+		...(note ? [{ type: "context", elements: [{ type: "mrkdwn", text: note }] }] : []),
+		...candidates.map((candidate, index) => ({
+			type: "section",
+			text: {
+				type: "mrkdwn",
+				text:
+					`*${index + 1}. ${candidate.title}*\n${candidate.summary}\n_Tag: ${candidate.tag} · Confidence: ${candidate.confidence}%_` +
+					(candidate.rationale ? `\n*Rationale:* ${candidate.rationale}` : "") +
+					(candidate.duplicate_of
+						? `\n⚠️ Possible duplicate of *${candidate.duplicate_of.title}* (${candidate.duplicate_of.similarity_score}%)`
+						: ""),
+			},
+		})),
+		{
+			type: "actions",
+			elements: [
+				{
+					type: "checkboxes",
+					action_id: LOG_DECISIONS_SELECT_ACTION,
+					options,
+					...(initialOptions.length > 0 ? { initial_options: initialOptions } : {}),
+				},
+			],
+		},
+		{
+			type: "actions",
+			elements: [
+				{
+					type: "button",
+					action_id: LOG_DECISIONS_CONFIRM_ACTION,
+					text: { type: "plain_text", text: "Log selected" },
+					style: "primary",
+					value: pendingKey,
+				},
+				{
+					type: "button",
+					action_id: LOG_DECISIONS_CANCEL_ACTION,
+					text: { type: "plain_text", text: "Cancel" },
+					value: pendingKey,
+				},
+			],
+		},
+	]
+}
+
+/**
+ * Build the delete confirmation message with Confirm/Cancel buttons
+ * @param pendingKey - Key of the pending deletion, carried as the button value
+ * @param decision - The decision to be deleted
+ * @param requestedBy - Slack user ID of the requester, if known
+ * @returns Block Kit blocks
+ */
+export function buildDeleteConfirmationBlocks(
+	pendingKey: string,
+	decision: DecisionRecordFields & { title: string; summary: string; tag: string },
+	requestedBy?: string,
+): SlackBlock[] {
+	const requester = requestedBy ? ` <@${requestedBy}>,` : ""
+	const record = formatDecisionRecord(decision)
+
+	return [
+		{
+			type: "section",
+			text: {
+				type: "mrkdwn",
+				text: `⚠️${requester} are you sure you want to delete this decision?\n\n*Decision:* ${decision.title}\n*Summary:* ${decision.summary}\n*Tag:* ${decision.tag}${record ? `\n${record}` : ""}`,
+			},
+		},
+		{
+			type: "actions",
+			elements: [
+				{
+					type: "button",
+					action_id: DELETE_CONFIRM_ACTION,
+					text: { type: "plain_text", text: "Confirm" },
+					style: "danger",
+					value: pendingKey,
+				},
+				{
+					type: "button",
+					action_id: DELETE_CANCEL_ACTION,
+					text: { type: "plain_text", text: "Cancel" },
+					value: pendingKey,
+				},
+			],
+		},
+	]
+}
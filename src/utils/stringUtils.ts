@@ -12,26 +12,11 @@ export function escapePipes(text: string): string {
 }
 
 /**
- * Extract a title from text (fallback method)
- * @param text - Text to extract title from
- * @returns Extracted title
+ * Mark thread text as incomplete so LLM prompts don't treat it as the whole
+ * conversation
+ * @param text - Thread text that was cut off at a fetch cap
+ * @returns Text prefixed with a truncation note
  */
-export function extractTitleFallback(text: string): string {
-	const first =
-		text
-			.split(/\n|\./)
-			.map((s) => s.trim())
-			.find(Boolean) || "Decision"
-	return first.slice(0, 80)
-}
-
-/**
- * Extract a summary from text (fallback method)
- * @param text - Text to extract summary from
- * @returns Extracted summary
- */
-export function extractSummaryFallback(text: string): string {
-	let s = text.replace(/\s+/g, " ").trim()
-	if (s.length > 180) s = s.slice(0, 177) + "..."
-	return s || "Summary TBD"
+export function prependTruncationNote(text: string): string {
+	return `[Note: this thread is longer than shown; only the earliest messages were retrieved.]\n${text}`
 }
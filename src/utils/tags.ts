@@ -0,0 +1,133 @@
+import { ManagedTag } from "../types"
+
+/**
+ * Helpers for decision tags and the managed tag vocabulary, and parsing for
+ * the "tags" mention command:
+ *   tags [list]
+ *   tags rename <tag> to <new name>
+ *   tags merge <tag> into <tag>
+ *   tags alias <alias> for <tag>
+ */
+
+export type TagCommand =
+	| { action: "list" }
+	| { action: "rename"; from: string; to: string }
+	| { action: "merge"; from: string; into: string }
+	| { action: "alias"; alias: string; tag: string }
+	| { action: "help"; error: string }
+
+/**
+ * Key tags are compared by: case, spacing and separators do not matter
+ * @param tag - A tag as written
+ * @returns Comparison key
+ */
+export function tagKey(tag: string): string {
+	return tag
+		.toLowerCase()
+		.replace(/[\s_-]+/g, " ")
+		.trim()
+}
+
+/**
+ * Tidy a tag as written by a person or the model
+ * @param tag - A tag
+ * @returns The tag with quotes and extra spaces removed
+ */
+export function cleanTag(tag: string): string {
+	return tag
+		.replace(/^["'`#]+|["'`]+$/g, "")
+		.replace(/\s+/g, " ")
+		.trim()
+		.slice(0, 40)
+}
+
+/**
+ * Distinct tags in order, compared by tagKey
+ * @param tags - Tags, possibly with repeats or blanks
+ * @returns Distinct non-empty tags
+ */
+export function uniqueTags(tags: Array<string | undefined>): string[] {
+	const seen = new Set<string>()
+	const unique: string[] = []
+	for (const tag of tags) {
+		const cleaned = cleanTag(tag || "")
+		if (cleaned && !seen.has(tagKey(cleaned))) {
+			seen.add(tagKey(cleaned))
+			unique.push(cleaned)
+		}
+	}
+	return unique
+}
+
+/**
+ * All tags of a decision, main tag first. Records written before decisions
+ * could carry several tags only have tag.
+ * @param decision - Decision with tag and optional tags
+ * @returns Distinct tags
+ */
+export function tagsOf(decision: { tag?: string; tags?: string[] }): string[] {
+	return uniqueTags([decision.tag, ...(decision.tags || [])])
+}
+
+/**
+ * Map tags onto the vocabulary: names and aliases become the canonical name,
+ * unknown tags are kept as written
+ * @param tags - Tags to map
+ * @param vocabulary - Managed tags
+ * @returns Distinct tags, main tag first
+ */
+export function canonicalTags(tags: Array<string | undefined>, vocabulary: ManagedTag[]): string[] {
+	const names = new Map<string, string>()
+	for (const managed of vocabulary) {
+		for (const spelling of [managed.name, ...managed.aliases]) {
+			names.set(tagKey(spelling), managed.name)
+		}
+	}
+	return uniqueTags(tags.map((tag) => names.get(tagKey(tag || "")) || tag))
+}
+
+/**
+ * Parse a tags command
+ * @param text - Command text of the mention, without the bot's mention
+ * @returns The command, or null if the text is not a tags command
+ */
+export function parseTagCommand(text: string): TagCommand | null {
+	const match = text.trim().match(/^tags\b[:\s]*(\w*)\s*(.*)$/is)
+	if (!match) {
+		return null
+	}
+
+	const verb = match[1].toLowerCase()
+	const rest = match[2].trim()
+	const pair = (separator: string) => {
+		const parts = rest.split(new RegExp(`\\s+${separator}\\s+`, "i"))
+		return parts.length === 2 ? parts.map(cleanTag) : null
+	}
+
+	switch (verb) {
+		case "":
+		case "list":
+			return { action: "list" }
+		case "rename": {
+			const names = pair("to")
+			return names?.every(Boolean)
+				? { action: "rename", from: names[0], to: names[1] }
+				: { action: "help", error: "Use `tags rename <tag> to <new name>`." }
+		}
+		case "merge": {
+			const names = pair("into")
+			return names?.every(Boolean)
+				? { action: "merge", from: names[0], into: names[1] }
+				: { action: "help", error: "Use `tags merge <tag> into <tag>`." }
+		}
+		case "alias": {
+			const names = pair("for")
+			return names?.every(Boolean)
+				? { action: "alias", alias: names[0], tag: names[1] }
+				: { action: "help", error: "Use `tags alias <alias> for <tag>`." }
+		}
+		default:
+			// e.g. "Tags should be lowercase from now on" is a request for the LLM flows
+			return null
+	}
+}
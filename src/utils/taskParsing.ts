@@ -0,0 +1,69 @@
+/**
+ * Helpers for reading assignees, due dates and task numbers out of
+ * free-form next steps and commands
+ */
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Slack user IDs mentioned in a text, in order of appearance
+ * @param text - Text with mentions like <@U123ABC> or <@U123ABC|name>
+ * @returns Distinct user IDs
+ */
+export function parseMentions(text: string): string[] {
+	const ids = [...text.matchAll(/<@([UW][A-Z0-9]+)(?:\|[^>]*)?>/g)].map((match) => match[1])
+	return [...new Set(ids)]
+}
+
+/**
+ * Read a due date from a next step
+ * Understands ISO dates, "today", "tomorrow", weekday names ("by Friday",
+ * meaning the next such day) and "next week" (seven days out)
+ * @param text - The next step
+ * @param now - Reference time
+ * @returns Due date as YYYY-MM-DD (UTC), or undefined if none is stated
+ */
+export function parseDueDate(text: string, now = new Date()): string | undefined {
+	const lower = text.toLowerCase()
+	const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+	const day = (offset: number) => new Date(today + offset * DAY_MS).toISOString().slice(0, 10)
+
+	const iso = lower.match(/\b(\d{4}-\d{2}-\d{2})\b/)
+	if (iso && !Number.isNaN(Date.parse(iso[1]))) {
+		return iso[1]
+	}
+	if (/\b(today|eod|end of day)\b/.test(lower)) {
+		return day(0)
+	}
+	if (/\btomorrow\b/.test(lower)) {
+		return day(1)
+	}
+	if (/\bnext week\b/.test(lower)) {
+		return day(7)
+	}
+
+	const weekday = WEEKDAYS.findIndex((name) => new RegExp(`\\b(by|on|before|due|until)\\s+(this\\s+|next\\s+)?${name}\\b`).test(lower))
+	if (weekday !== -1) {
+		const current = new Date(today).getUTCDay()
+		return day((weekday - current + 7) % 7 || 7)
+	}
+
+	return undefined
+}
+
+/**
+ * Task numbers referenced in a command, e.g. "#12", "task 12", "tasks 3 and 4"
+ * @param text - The command text
+ * @returns Distinct task numbers
+ */
+export function parseTaskNumbers(text: string): number[] {
+	const numbers = [
+		...[...text.matchAll(/#(\d+)\b/g)].map((match) => Number(match[1])),
+		...[...text.matchAll(/\btasks?\s+((?:\d+(?:\s*(?:,|and)\s*)?)+)/gi)].flatMap((match) =>
+			(match[1].match(/\d+/g) || []).map(Number),
+		),
+	]
+	return [...new Set(numbers)]
+}
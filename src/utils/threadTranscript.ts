@@ -0,0 +1,163 @@
+import { ThreadMessage } from "../types"
+import { parseMentions } from "./taskParsing"
+
+/**
+ * Turn fetched thread messages into the text the LLM flows read: Slack
+ * markup becomes plain text, each line says who wrote it and when, and the
+ * bot's own replies are left out
+ */
+
+export interface TranscriptOptions {
+	/** The bot's user ID; its own messages are dropped */
+	botUserId?: string
+	/** Display names by user ID, for rendering mentions */
+	userNames?: Map<string, string>
+}
+
+/**
+ * Format a Slack message timestamp ("1718000000.000100") as "YYYY-MM-DD HH:MM" (UTC)
+ */
+function formatTs(ts: string): string {
+	const seconds = Number(ts.split(".")[0])
+	return Number.isFinite(seconds) && seconds > 0
+		? new Date(seconds * 1000).toISOString().slice(0, 16).replace("T", " ")
+		: ""
+}
+
+/**
+ * Convert Slack mrkdwn markup into readable text
+ * - <@U123> and <@U123|name> become @name
+ * - <#C123|general> becomes #general
+ * - <!here>, <!channel>, <!subteam^S1|@team> become @here, @channel, @team
+ * - <!date^...|fallback> becomes its fallback text
+ * - <https://x|label> becomes "label (https://x)", bare links lose the brackets
+ * @param text - Slack message text
+ * @param userNames - Display names by user ID
+ * @returns Plain text
+ */
+export function slackMarkupToText(text: string, userNames: Map<string, string> = new Map()): string {
+	return text
+		.replace(/<([^<>]+)>/g, (_match, inner: string) => {
+			const [target, label] = splitLabel(inner)
+			switch (target[0]) {
+				case "@":
+					return `@${userNames.get(target.slice(1)) || label || target.slice(1)}`
+				case "#":
+					return `#${label || target.slice(1)}`
+				case "!": {
+					const command = target.slice(1).split("^")[0]
+					if (command === "subteam") {
+						return label ? (label.startsWith("@") ? label : `@${label}`) : "@team"
+					}
+					if (command === "date") {
+						return label || ""
+					}
+					return label || `@${command}`
+				}
+				default: {
+					const url = target.replace(/^mailto:/, "")
+					return label && label !== url ? `${label} (${url})` : url
+				}
+			}
+		})
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&amp;/g, "&")
+}
+
+function splitLabel(inner: string): [string, string | undefined] {
+	const bar = inner.indexOf("|")
+	return bar === -1 ? [inner, undefined] : [inner.slice(0, bar), inner.slice(bar + 1)]
+}
+
+/**
+ * Render one message's body: its text, then file titles and unfurled links
+ */
+function renderMessageBody(message: ThreadMessage, userNames: Map<string, string>): string {
+	const parts = [slackMarkupToText(message.text, userNames).trim()]
+	for (const file of message.files || []) {
+		parts.push(`[file: ${file}]`)
+	}
+	for (const attachment of message.attachments || []) {
+		const text = [attachment.title, attachment.text]
+			.filter(Boolean)
+			.map((value) => slackMarkupToText(value!, userNames).replace(/\s+/g, " ").trim())
+			.join(" — ")
+		parts.push(`[link: ${text}${attachment.url ? ` (${attachment.url})` : ""}]`)
+	}
+	return parts.filter(Boolean).join("\n")
+}
+
+/**
+ * Render messages one per line as "[time] Author: text". Messages from other
+ * bots and integrations are marked so the model can tell them from people.
+ * @param messages - Thread messages, oldest first
+ * @param options - Bot user ID and mention names
+ * @returns Transcript text
+ */
+export function formatThreadTranscript(messages: ThreadMessage[], options: TranscriptOptions = {}): string {
+	const userNames = options.userNames || new Map()
+	return messages
+		.filter((message) => !options.botUserId || message.user !== options.botUserId)
+		.map((message) => ({ message, body: renderMessageBody(message, userNames) }))
+		.filter(({ body }) => body)
+		.map(({ message, body }) => {
+			const time = formatTs(message.ts)
+			const author = message.is_bot ? `${message.author} (bot)` : message.author
+			return `${time ? `[${time}] ` : ""}${author}: ${body}`
+		})
+		.join("\n")
+}
+
+/**
+ * Display names of the people who wrote in a thread, in order of first message
+ * @param messages - Thread messages
+ * @returns Distinct display names, bots excluded
+ */
+export function threadParticipants(messages: ThreadMessage[]): string[] {
+	return [...new Set(messages.filter((message) => !message.is_bot).map((message) => message.author))]
+}
+
+/**
+ * User IDs whose names a transcript needs: mentioned users that did not
+ * write in the thread themselves
+ * @param messages - Thread messages
+ * @returns Distinct user IDs
+ */
+export function unresolvedMentions(messages: ThreadMessage[]): string[] {
+	const authors = new Set(messages.map((message) => message.user))
+	return parseMentions(messages.map((message) => message.text).join("\n")).filter((id) => !authors.has(id))
+}
+
+/**
+ * The command a mention carries: the mention message with the bot's own
+ * mention removed, as plain text
+ * @param mentionText - Text of the message that mentioned the bot
+ * @param options - Bot user ID and mention names
+ * @returns Command text
+ */
+export function extractCommandText(mentionText: string, options: TranscriptOptions = {}): string {
+	const withoutBot = options.botUserId
+		? mentionText.replace(new RegExp(`<@${options.botUserId}(\\|[^>]*)?>`, "g"), " ")
+		: // Without the bot's ID, assume the mention that addressed it comes first
+			mentionText.replace(/<@[UW][A-Z0-9]+(\|[^>]*)?>/, " ")
+	return slackMarkupToText(withoutBot, options.userNames).replace(/\s+/g, " ").trim()
+}
+
+/**
+ * Turn @name mentions of known users back into Slack mentions, so posted
+ * text notifies them
+ * @param text - Text with @name mentions, as written from a transcript
+ * @param userNames - Display names by user ID
+ * @returns Text with <@U123> mentions
+ */
+export function linkMentions(text: string, userNames: Map<string, string>): string {
+	// Longest names first, so "@ann lee" wins over "@ann"
+	const users = [...userNames.entries()].sort(([, a], [, b]) => b.length - a.length)
+	let linked = text
+	for (const [id, name] of users) {
+		const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+		linked = linked.replace(new RegExp(`@${escaped}(?![\\w-]|\\.\\w)`, "gi"), `<@${id}>`)
+	}
+	return linked
+}
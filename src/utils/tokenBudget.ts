@@ -0,0 +1,55 @@
+/**
+ * Rough token accounting for fitting thread text into a prompt. Counts are
+ * estimates (about four characters per token for English text), so budgets
+ * should leave headroom below the model's real context window.
+ */
+
+const CHARS_PER_TOKEN = 4
+
+/**
+ * Estimate the number of tokens in a text
+ * @param text - Any text
+ * @returns Estimated token count
+ */
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+/**
+ * Split text into chunks of at most maxTokens each. Chunks break between
+ * lines; a single line longer than the budget is cut into pieces.
+ * @param text - Text to split
+ * @param maxTokens - Token budget per chunk
+ * @returns Chunks in order
+ */
+export function splitIntoChunks(text: string, maxTokens: number): string[] {
+	const maxChars = Math.max(maxTokens, 1) * CHARS_PER_TOKEN
+	const chunks: string[] = []
+	let current = ""
+
+	for (const line of text.split("\n")) {
+		for (let start = 0; start < Math.max(line.length, 1); start += maxChars) {
+			const piece = line.slice(start, start + maxChars)
+			if (current && current.length + 1 + piece.length > maxChars) {
+				chunks.push(current)
+				current = ""
+			}
+			current = current ? `${current}\n${piece}` : piece
+		}
+	}
+	if (current.trim()) {
+		chunks.push(current)
+	}
+
+	return chunks
+}
+
+/**
+ * Cut text down to a token budget, keeping the start
+ * @param text - Text to shorten
+ * @param maxTokens - Token budget
+ * @returns The text, shortened if needed
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+	return text.slice(0, maxTokens * CHARS_PER_TOKEN)
+}
@@ -0,0 +1,291 @@
+import { DECISION_STATUSES, StoredDecision } from "../types"
+import { decisionDate } from "../utils/decisionFilters"
+import { tagsOf } from "../utils/tags"
+
+/**
+ * Server-rendered HTML for the decision dashboard. Every value taken from a
+ * decision goes through escapeHtml.
+ */
+
+export const DASHBOARD_PATH = "/dashboard"
+
+export interface ListFilterValues {
+	q?: string
+	tag?: string
+	channel?: string
+	status?: string
+	from?: string
+	to?: string
+}
+
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+export function escapeHtml(value: unknown): string {
+	return String(value ?? "")
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&#39;")
+}
+
+const STYLES = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; margin: 0; color: #1d1c1d; background: #f8f8f8; }
+header { background: #3f0e40; padding: 12px 24px; }
+header a { color: #fff; margin-right: 20px; text-decoration: none; font-weight: 600; }
+main { max-width: 1100px; margin: 24px auto; padding: 0 24px; }
+table { width: 100%; border-collapse: collapse; background: #fff; }
+th, td { text-align: left; padding: 8px 10px; border-bottom: 1px solid #e8e8e8; vertical-align: top; }
+th { background: #f0f0f0; font-size: 13px; }
+form.filters { display: flex; flex-wrap: wrap; gap: 8px; margin-bottom: 16px; }
+form.filters input, form.filters select, form.filters button { padding: 6px 8px; font-size: 14px; }
+.muted { color: #616061; font-size: 13px; }
+.status { display: inline-block; padding: 1px 8px; border-radius: 10px; font-size: 12px; background: #e8e8e8; }
+.status-accepted { background: #d8f5e3; }
+.status-proposed { background: #fff2cc; }
+.status-superseded, .status-rejected { background: #f5d8d8; }
+.card { background: #fff; padding: 16px 20px; margin-bottom: 16px; border: 1px solid #e8e8e8; }
+.timeline h2 { font-size: 16px; margin: 24px 0 8px; }
+.timeline li { margin-bottom: 8px; }
+dl dt { font-weight: 600; margin-top: 12px; }
+dl dd { margin: 4px 0 0; white-space: pre-wrap; }
+`
+
+/**
+ * Wrap page content in the shared layout
+ */
+function layout(title: string, body: string): string {
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)} · Decision Log</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header><a href="${DASHBOARD_PATH}">Decisions</a><a href="${DASHBOARD_PATH}/timeline">Timeline</a></header>
+<main>
+${body}
+</main>
+</body>
+</html>`
+}
+
+function decisionLink(decision: StoredDecision): string {
+	return `<a href="${DASHBOARD_PATH}/decisions/${encodeURIComponent(decision.id)}">${escapeHtml(decision.title)}</a>`
+}
+
+function statusBadge(decision: StoredDecision): string {
+	return decision.status
+		? `<span class="status status-${escapeHtml(decision.status)}">${escapeHtml(decision.status)}</span>`
+		: ""
+}
+
+function formatDate(decision: StoredDecision): string {
+	return escapeHtml((decisionDate(decision) || "").slice(0, 10))
+}
+
+/** Only link thread URLs that are actually web links */
+function threadLink(url: string | undefined): string {
+	return url && /^https?:\/\//.test(url) ? `<a href="${escapeHtml(url)}">Open Slack thread</a>` : ""
+}
+
+function options(values: readonly string[], selected: string | undefined, anyLabel: string): string {
+	return [
+		`<option value="">${escapeHtml(anyLabel)}</option>`,
+		...values.map(
+			(value) => `<option value="${escapeHtml(value)}"${value === selected ? " selected" : ""}>${escapeHtml(value)}</option>`,
+		),
+	].join("")
+}
+
+/**
+ * Render the filter form, shared by the table and the timeline
+ */
+function filterForm(
+	action: string,
+	filters: ListFilterValues,
+	tags: string[],
+	channels: string[],
+): string {
+	return `<form class="filters" method="get" action="${action}">
+<input type="search" name="q" placeholder="Search decisions" value="${escapeHtml(filters.q)}">
+<select name="tag">${options(tags, filters.tag, "All tags")}</select>
+<select name="channel">${options(channels, filters.channel, "All channels")}</select>
+<select name="status">${options(DECISION_STATUSES, filters.status, "Any status")}</select>
+<label class="muted">From <input type="date" name="from" value="${escapeHtml(filters.from)}"></label>
+<label class="muted">To <input type="date" name="to" value="${escapeHtml(filters.to)}"></label>
+<button type="submit">Filter</button>
+<a class="muted" href="${action}">Reset</a>
+</form>`
+}
+
+/**
+ * Render the searchable decision table
+ * @param params.decisions - The decisions on this page
+ * @param params.total - Number of decisions matching the filters
+ * @param params.page - 1-based page number
+ * @param params.pageCount - Number of pages
+ * @param params.filters - Current filter values, echoed into the form
+ * @param params.tags - Tags to offer in the filter
+ * @param params.channels - Channels to offer in the filter
+ * @param params.error - Filter error to show, if any
+ */
+export function renderDecisionList(params: {
+	decisions: StoredDecision[]
+	total: number
+	page: number
+	pageCount: number
+	filters: ListFilterValues
+	tags: string[]
+	channels: string[]
+	error?: string
+}): string {
+	const { decisions, total, page, pageCount, filters } = params
+
+	const rows = decisions
+		.map(
+			(decision) => `<tr>
+<td>${formatDate(decision)}</td>
+<td>${decisionLink(decision)}<div class="muted">${escapeHtml(decision.summary)}</div></td>
+<td>${escapeHtml(tagsOf(decision).join(", "))}</td>
+<td>${escapeHtml(decision.slack_channel)}</td>
+<td>${statusBadge(decision)}</td>
+</tr>`,
+		)
+		.join("\n")
+
+	const pageLink = (target: number, label: string) => {
+		const query = new URLSearchParams(
+			Object.entries({ ...filters, page: String(target) }).filter(
+				(entry): entry is [string, string] => Boolean(entry[1]),
+			),
+		)
+		return `<a href="${DASHBOARD_PATH}?${escapeHtml(query.toString())}">${label}</a>`
+	}
+	const pager = [
+		page > 1 ? pageLink(page - 1, "← Newer") : "",
+		`<span class="muted">Page ${page} of ${Math.max(pageCount, 1)}</span>`,
+		page < pageCount ? pageLink(page + 1, "Older →") : "",
+	].join(" ")
+
+	return layout(
+		"Decisions",
+		`<h1>Decisions</h1>
+${filterForm(DASHBOARD_PATH, filters, params.tags, params.channels)}
+${params.error ? `<p class="card">⚠️ ${escapeHtml(params.error)}</p>` : ""}
+<p class="muted">${total} decision${total === 1 ? "" : "s"}</p>
+<table>
+<thead><tr><th>Date</th><th>Decision</th><th>Tag</th><th>Channel</th><th>Status</th></tr></thead>
+<tbody>
+${rows || `<tr><td colspan="5" class="muted">No decisions match these filters.</td></tr>`}
+</tbody>
+</table>
+<p>${pager}</p>`,
+	)
+}
+
+/**
+ * Render one decision with its source thread, supersede chain and related
+ * decisions
+ * @param params.decision - The decision to show
+ * @param params.previousVersions - Decisions it replaced, newest first
+ * @param params.supersededBy - The decision that replaced it, if any
+ * @param params.related - Similar decisions
+ */
+export function renderDecisionDetail(params: {
+	decision: StoredDecision
+	previousVersions: StoredDecision[]
+	supersededBy?: StoredDecision
+	related: StoredDecision[]
+}): string {
+	const { decision, previousVersions, supersededBy, related } = params
+
+	const fields: Array<[string, string | undefined]> = [
+		["Context", decision.context],
+		["Rationale", decision.rationale],
+		["Alternatives considered", decision.alternatives?.map((alternative) => `• ${alternative}`).join("\n")],
+		["Consequences", decision.consequences],
+		["Owner", decision.owner],
+		["Decided by", decision.decided_by],
+		["Participants", decision.participants?.join(", ")],
+		["Decided on", decision.decision_date],
+		["Logged", decision.date_timestamp?.slice(0, 10)],
+		["Channel", decision.slack_channel],
+		["Tags", tagsOf(decision).join(", ")],
+	]
+	const details = fields
+		.filter(([, value]) => value)
+		.map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`)
+		.join("\n")
+
+	const list = (items: StoredDecision[]) =>
+		`<ul>${items.map((item) => `<li>${decisionLink(item)} <span class="muted">${formatDate(item)}</span> ${statusBadge(item)}</li>`).join("")}</ul>`
+
+	return layout(
+		decision.title,
+		`<p><a class="muted" href="${DASHBOARD_PATH}">← All decisions</a></p>
+<div class="card">
+<h1>${escapeHtml(decision.title)} ${statusBadge(decision)}</h1>
+${supersededBy ? `<p>⚠️ Superseded by ${decisionLink(supersededBy)}</p>` : ""}
+<p>${escapeHtml(decision.summary)}</p>
+<p>${threadLink(decision.slack_thread)}</p>
+<dl>
+${details}
+</dl>
+</div>
+${previousVersions.length > 0 ? `<div class="card"><h2>Replaces</h2>${list(previousVersions)}</div>` : ""}
+<div class="card"><h2>Related decisions</h2>${related.length > 0 ? list(related) : `<p class="muted">No related decisions found.</p>`}</div>`,
+	)
+}
+
+/**
+ * Render decisions on a timeline, grouped by month, newest first
+ * @param params.decisions - Decisions to show, newest first
+ * @param params.filters - Current filter values, echoed into the form
+ * @param params.tags - Tags to offer in the filter
+ * @param params.channels - Channels to offer in the filter
+ */
+export function renderTimeline(params: {
+	decisions: StoredDecision[]
+	filters: ListFilterValues
+	tags: string[]
+	channels: string[]
+}): string {
+	const months = new Map<string, StoredDecision[]>()
+	for (const decision of params.decisions) {
+		const date = decisionDate(decision)
+		const month = date
+			? new Date(date).toLocaleString("en-GB", { month: "long", year: "numeric", timeZone: "UTC" })
+			: "Undated"
+		months.set(month, [...(months.get(month) || []), decision])
+	}
+
+	const sections = [...months.entries()]
+		.map(
+			([month, decisions]) => `<h2>${escapeHtml(month)}</h2>
+<ul>${decisions
+				.map(
+					(decision) =>
+						`<li><span class="muted">${formatDate(decision)}</span> ${decisionLink(decision)} ${statusBadge(decision)} <span class="muted">${escapeHtml(tagsOf(decision).join(", "))}</span></li>`,
+				)
+				.join("")}</ul>`,
+		)
+		.join("\n")
+
+	return layout(
+		"Timeline",
+		`<h1>Timeline</h1>
+${filterForm(`${DASHBOARD_PATH}/timeline`, params.filters, params.tags, params.channels)}
+<div class="timeline">${sections || `<p class="muted">No decisions match these filters.</p>`}</div>`,
+	)
+}
+
+/**
+ * Render a simple "not found" page
+ */
+export function renderNotFound(): string {
+	return layout("Not found", `<h1>Decision not found</h1><p><a href="${DASHBOARD_PATH}">Back to all decisions</a></p>`)
+}
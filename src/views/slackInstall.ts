@@ -0,0 +1,45 @@
+import { escapeHtml } from "./dashboard"
+
+/**
+ * Pages shown at the end of the Slack install flow
+ */
+
+function page(title: string, body: string): string {
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)} · Decision Log</title>
+<style>body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 560px; margin: 80px auto; padding: 0 24px; color: #1d1c1d; }</style>
+</head>
+<body>
+${body}
+</body>
+</html>`
+}
+
+/**
+ * Render the page shown after a successful install
+ * @param teamName - Name of the workspace the app was installed in
+ */
+export function renderInstallSuccess(teamName: string): string {
+	return page(
+		"Installed",
+		`<h1>✅ Installed</h1>
+<p>The decision bot is now installed in <strong>${escapeHtml(teamName)}</strong>. Invite it to a channel and mention it in a thread to get started.</p>`,
+	)
+}
+
+/**
+ * Render the page shown when an install fails
+ * @param message - What went wrong
+ */
+export function renderInstallError(message: string): string {
+	return page(
+		"Installation failed",
+		`<h1>Installation failed</h1>
+<p>${escapeHtml(message)}</p>
+<p><a href="/slack/install">Try again</a></p>`,
+	)
+}